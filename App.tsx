@@ -1,82 +1,187 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Faction, GameState, Location, LocationType, Contract, ShipStats, SCREEN_WIDTH, SCREEN_HEIGHT, CENTER, Coordinates } from './types';
-import { LOCATIONS, INITIAL_SHIP_STATS, CONTRACT_TEMPLATES, MUSIC_TRACK_URL } from './constants';
+import { GameAction, GameState, LocationType, Contract, SoundKind, ReplayLog, Route, RouteRanking, PirateResponse } from './types';
+import { CAMPAIGNS, COMMODITIES, LOCATIONS, MUSIC_TRACK_URL, STAR_SYSTEMS } from './constants';
 import GameMap from './components/GameMap';
+import GalaxyMap from './components/GalaxyMap';
 import ContractCard from './components/ContractCard';
 import { AudioManager } from './audio';
-import { Gauge, Fuel, DollarSign, Crosshair, Radio, TriangleAlert, Settings, Info, Volume2, VolumeX, Power, Clock, Droplets } from 'lucide-react';
-
-const LOG_MAX_LENGTH = 5;
-
-// Helper to get coordinates based on time
-const getDynamicLocations = (time: number): Location[] => {
-    return LOCATIONS.map(loc => {
-        if (!loc.orbitRadius || loc.orbitSpeed === undefined) return loc;
-
-        // Calculate angle: Initial + (Speed * Time)
-        const angleDeg = (loc.initialAngle || 0) + (loc.orbitSpeed * time);
-        const angleRad = angleDeg * (Math.PI / 180);
-
-        return {
-            ...loc,
-            coords: {
-                x: CENTER.x + loc.orbitRadius * Math.cos(angleRad),
-                y: CENTER.y + loc.orbitRadius * Math.sin(angleRad)
-            }
-        };
-    });
-};
+import { createInitialState, getDockingFees, step } from './engine/simulation';
+import { canDockAt, getRefuelCost, getFuelPrice, getRepairPrice, getTierProfile, servicesOpen } from './engine/reputation';
+import { randomSeed } from './engine/rng';
+import { buildReplay, parseReplay } from './engine/replay';
+import { SaveSlotId, deleteSave, listSaves, readSave, writeSave } from './save';
+import SaveSlots from './components/SaveSlots';
+import { readCareer, recordAchievements, recordRun } from './career';
+import { installPack, readPacks, removePack, resolvePacks, setPackEnabled } from './packs';
+import StatsScreen from './components/StatsScreen';
+import LedgerScreen from './components/LedgerScreen';
+import CommsConsole from './components/CommsConsole';
+import ContentPackMenu from './components/ContentPackMenu';
+import RunReport from './components/RunReport';
+import { ACHIEVEMENTS } from './engine/achievements';
+import ReplayViewer from './components/ReplayViewer';
+import Shipyard from './components/Shipyard';
+import MarketPanel from './components/MarketPanel';
+import RepBadge from './components/RepBadge';
+import RoutePlanner from './components/RoutePlanner';
+import LaunchForecast from './components/LaunchForecast';
+import EventDialog from './components/EventDialog';
+import PirateDialog from './components/PirateDialog';
+import StationSchedule from './components/StationSchedule';
+import Bank from './components/Bank';
+import Insurance from './components/Insurance';
+import CampaignBoard from './components/CampaignBoard';
+import CampaignDialog from './components/CampaignDialog';
+import { getDynamicLocations } from './engine/orbits';
+import { getShipPosition, getShipRotation, planTravel } from './engine/flight';
+import { getShipyard, getUpgradeOffers } from './engine/shipyard';
+import { getCargoUsed, getHoldSpace, isLate } from './engine/contracts';
+import { getMarketQuotes } from './engine/market';
+import { getRouteKey, getRouteStops, planRoutes, rankRoutes } from './engine/route';
+import { findLaunchWindows, forecastLaunches } from './engine/forecast';
+import { getEvent } from './engine/events';
+import { getCargoValue, getEscapeChance, getFightChance } from './engine/pirates';
+import { formatClock, getStationSchedule } from './engine/calendar';
+import { getDailyCosts } from './engine/upkeep';
+import { getDebt, getLoan, getLoanOffer } from './engine/bank';
+import { getMissionOffers, getPendingDebrief } from './engine/campaigns';
+import { getCargoPremium, getHullPremium, getRecentDamage, isCovered, isInsurable } from './engine/insurance';
+import { MAX_FRAME_MS, TICK_MS, TICK_RATE, TIME_SCALES, TimeScale, advanceClock } from './engine/clock';
+import { ledgerToCsv } from './engine/ledger';
+import { ensureContent, getFactionColor, registerPacks } from './engine/content';
+import { getShipSystemId, getSystem, getTwinGate } from './engine/gates';
+import { Gauge, Fuel, DollarSign, Crosshair, Radio, TriangleAlert, Settings, Info, Volume2, VolumeX, Power, Clock, Droplets, Save, Film, X, Pause, Trophy, BookOpen, Globe, Orbit } from 'lucide-react';
+
+// Launch forecasts and route quotes are costly to work out, so only
+// redo them this often
+const FORECAST_RESAMPLE_TICKS = 30;
 
 export default function App() {
   // --- STATE ---
-  const [gameState, setGameState] = useState<GameState>({
-    credits: 150, // Starting credits
-    fuel: 400,
-    hull: 100,
-    currentLocationId: 'station-x33',
-    reputation: {
-      [Faction.X33]: 50,
-      [Faction.X63]: 40,
-      [Faction.X99]: 20,
-      [Faction.NEUTRAL]: 0
-    },
-    ship: INITIAL_SHIP_STATS,
-    day: 1,
-    gameTime: 0,
-    isFlying: false,
-    flightProgress: 0,
-    flightOriginId: null,
-    flightDestinationId: null,
-    activeContract: null,
-    logs: ["SYSTEM INIT...", "DOCKED AT X-33 LIBERTY."]
-  });
+  const [seedInput, setSeedInput] = useState<string>(randomSeed);
+  const [classicSystem, setClassicSystem] = useState(false);
+  const [gameState, setGameState] = useState<GameState>(() => createInitialState(seedInput));
 
   const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null);
-  const [generatedContracts, setGeneratedContracts] = useState<Contract[]>([]);
-  const [gameOver, setGameOver] = useState(false);
   const [audioInitialized, setAudioInitialized] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [fuelToAdd, setFuelToAdd] = useState<number>(0);
+  // Read before the saves: installed packs have to be registered for older
+  // saves that used them to migrate
+  const [packStore, setPackStore] = useState(readPacks);
+  const [saves, setSaves] = useState(listSaves);
+  const [showSaveMenu, setShowSaveMenu] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false); // Last write didn't fit in storage
+  const [showLoadMenu, setShowLoadMenu] = useState(false);
+  const [replayLog, setReplayLog] = useState<ReplayLog | null>(null);
+  const [replayError, setReplayError] = useState(false);
+  const [routeRanking, setRouteRanking] = useState<RouteRanking>('time');
+  const [routeChoice, setRouteChoice] = useState<string | null>(null);
+  const [timeScale, setTimeScale] = useState<TimeScale>(1);
+  const [renderAlpha, setRenderAlpha] = useState(0); // Fraction of a tick since the last step
+  const [briefingId, setBriefingId] = useState<string | null>(null); // Campaign whose briefing is open
+  const [career, setCareer] = useState(readCareer);
+  const [showStats, setShowStats] = useState(false);
+  const [showLedger, setShowLedger] = useState(false);
+  const [showPacks, setShowPacks] = useState(false);
+  const [packErrors, setPackErrors] = useState<string[]>([]);
+  const [missingPacks, setMissingPacks] = useState<string[]>([]); // Needed by the save or tape we tried to open
+  const [viewedSystemId, setViewedSystemId] = useState<string | null>(null); // Null follows the ship
+  const [showGalaxy, setShowGalaxy] = useState(false);
   
   // Game Loop Ref
   const requestRef = useRef<number>();
-  const flightRef = useRef<number>();
+  const lastFrameRef = useRef<number | null>(null);
+  const accumulatorRef = useRef(0); // Real ms banked towards the next tick
+  const timeScaleRef = useRef<TimeScale>(1);
+  const lastCueRef = useRef(0);
   const audioManager = useRef(new AudioManager());
 
+  // All rule changes go through the engine
+  const dispatch = useCallback((action: GameAction) => {
+    setGameState(prev => step(prev, action));
+  }, []);
+
   // Dynamic Locations derived from state time
   const currentLocations = useMemo(() => getDynamicLocations(gameState.gameTime), [gameState.gameTime]);
+  // Drawn between fixed steps; frozen while paused or held on an incident
+  const drawAlpha = timeScale === 0 || gameState.pendingEvent || gameState.encounter ? 0 : renderAlpha;
+  const mapLocations = useMemo(() => getDynamicLocations(gameState.gameTime + drawAlpha), [gameState.gameTime, drawAlpha]);
   const currentLocation = currentLocations.find(l => l.id === gameState.currentLocationId);
+  const shipSystemId = getShipSystemId(gameState);
+  const viewedSystem = getSystem(viewedSystemId ?? shipSystemId) ?? STAR_SYSTEMS[0];
+  const cargoSystems = Array.from(new Set(gameState.activeContracts.flatMap(c => LOCATIONS.find(l => l.id === c.destinationId)?.system ?? [])));
   const selectedLocation = selectedLocationId ? currentLocations.find(l => l.id === selectedLocationId) || null : null;
-  const destinationLocation = currentLocations.find(l => l.id === gameState.flightDestinationId);
+  const forecastBucket = Math.floor(gameState.gameTime / FORECAST_RESAMPLE_TICKS);
+  // Itineraries to the selected stop, quoted as if we launched this tick,
+  // re-quoted every few ticks or when what we can afford changes
+  const routes = useMemo(
+      () => (selectedLocationId && !gameState.isFlying ? rankRoutes(planRoutes(gameState, selectedLocationId), routeRanking) : []),
+      [selectedLocationId, routeRanking, forecastBucket, gameState.isFlying, gameState.currentLocationId, gameState.fuel, gameState.credits, gameState.ship, gameState.activeContracts, gameState.reputation]
+  );
+  const pendingEvent = getEvent(gameState.pendingEvent?.eventId);
+  const missionOffers = getMissionOffers(gameState, gameState.isFlying ? undefined : currentLocation);
+  const briefing = missionOffers.find(o => o.campaign.id === briefingId && !o.locked) ?? null;
+  const pendingDebrief = getPendingDebrief(gameState);
+  const chosenRoute = routes.find(r => getRouteKey(r) === routeChoice) ?? routes[0] ?? null;
+  // Direct-launch costs over the coming ticks, resampled every few ticks
+  const launchForecast = useMemo(() => {
+      if (!selectedLocationId || gameState.isFlying || selectedLocationId === gameState.currentLocationId) return { samples: [], windows: [] };
+      const samples = forecastLaunches(gameState, selectedLocationId);
+      return { samples, windows: findLaunchWindows(gameState, samples) };
+  }, [selectedLocationId, forecastBucket, gameState.isFlying, gameState.currentLocationId, gameState.ship]);
 
   // --- AUDIO INIT ---
-  const initAudio = () => {
+  const bootSystems = (state: GameState) => {
+    lastCueRef.current = state.cueSeq;
+    setGameState(state);
     audioManager.current.init(MUSIC_TRACK_URL);
     setAudioInitialized(true);
     audioManager.current.playAccept();
+    if (state.isFlying) audioManager.current.startEngine();
     startGameLoop();
   };
 
+  const initAudio = () => {
+    // Start the run from whatever seed is on the start screen, with the
+    // packs enabled in the menu, in a system laid out from the same seed
+    const seed = seedInput.trim() || randomSeed();
+    activateContent(packStore.enabled, classicSystem ? null : seed);
+    bootSystems(createInitialState(seed, `${seed}:${Date.now().toString(36)}`));
+  };
+
+  // --- CONTENT PACKS ---
+  // Put the content and system a run was played with back in force. Fails
+  // if a pack it needs has since been uninstalled.
+  const activateContent = (ids: string[], systemSeed: string | null) => {
+    const { packs, missing } = resolvePacks(packStore, ids);
+    setMissingPacks(missing);
+    registerPacks(packs);
+    return missing.length === 0 && ensureContent(ids, systemSeed);
+  };
+
+  const importPack = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(json => {
+      const { errors, store } = installPack(json);
+      setPackErrors(errors.map(e => `${file.name}: ${e}`));
+      setPackStore(store);
+    });
+  };
+
+  // --- SAVE / LOAD ---
+  const resumeFrom = (slot: SaveSlotId) => {
+    const save = readSave(slot);
+    if (save && activateContent(save.state.contentPacks, save.state.systemSeed)) bootSystems(save.state);
+  };
+
+  const saveTo = (slot: SaveSlotId) => {
+    playClick();
+    setSaveFailed(!writeSave(slot, gameState));
+    setSaves(listSaves());
+    setShowSaveMenu(false);
+  };
+
   const toggleMute = () => {
     const muted = audioManager.current.toggleMute();
     setIsMuted(muted);
@@ -91,58 +196,107 @@ export default function App() {
       if (audioInitialized) audioManager.current.playClick();
   };
 
-  // --- HELPERS ---
+  const playCue = (kind: SoundKind) => {
+      const audio = audioManager.current;
+      switch (kind) {
+          case 'accept': audio.playAccept(); break;
+          case 'error': audio.playError(); break;
+          case 'cash': audio.playCash(); break;
+          case 'alert': audio.playAlert(); break;
+          case 'engine-start': audio.startEngine(); break;
+          case 'engine-stop': audio.stopEngine(); break;
+      }
+  };
 
-  const addLog = useCallback((msg: string) => {
-    setGameState(prev => ({
-      ...prev,
-      logs: [msg, ...prev.logs].slice(0, LOG_MAX_LENGTH)
-    }));
-  }, []);
+  // Play any cues the engine emitted since the last render
+  useEffect(() => {
+      // Alerts bring compressed time back to normal speed
+      const alerted = gameState.cues.some(cue => cue.seq > lastCueRef.current && cue.kind === 'alert');
+      if (alerted && timeScaleRef.current > 1) changeTimeScale(1);
+
+      if (audioInitialized) {
+          gameState.cues.forEach(cue => {
+              if (cue.seq > lastCueRef.current) playCue(cue.kind);
+          });
+      }
+      lastCueRef.current = gameState.cueSeq;
+  }, [gameState.cues]);
+
+  // --- CAREER ---
+  // Achievements are banked as soon as they land; the rest of the run's
+  // tallies once it's over
+  useEffect(() => {
+      if (gameState.achievements.length > 0) setCareer(recordAchievements(gameState));
+  }, [gameState.achievements.length]);
+
+  // A dead run can't be resumed, so its autosave goes with it
+  useEffect(() => {
+      if (!gameState.isGameOver) return;
+      deleteSave('auto');
+      setSaves(listSaves());
+      setCareer(recordRun(gameState));
+  }, [gameState.isGameOver]);
+
+  // --- REPLAYS ---
+  const exportReplay = () => {
+    playClick();
+    const blob = new Blob([JSON.stringify(buildReplay(gameState))], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `lunar-runner-${gameState.seed}-T${gameState.gameTime}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportLedger = () => {
+    playClick();
+    const blob = new Blob([ledgerToCsv(gameState.ledger)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `lunar-runner-${gameState.seed}-ledger.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
-  // UPDATED: Now accepts generic Coordinates objects ({x,y}) directly
-  const getDistance = (p1: Coordinates, p2: Coordinates) => {
-    return Math.sqrt(
-      Math.pow(p2.x - p1.x, 2) + 
-      Math.pow(p2.y - p1.y, 2)
-    );
+  const importReplay = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(json => {
+      const log = parseReplay(json);
+      setReplayError(!log);
+      if (log && activateContent(log.packs, log.system)) setReplayLog(log);
+    });
   };
 
-  const getFuelCost = (dist: number) => {
-    return dist * gameState.ship.fuelEfficiency * 0.5; // Tuning factor
+  // The tape may have been played on other content; put the run's back
+  const closeReplay = () => {
+    setReplayLog(null);
+    activateContent(gameState.contentPacks, gameState.systemSeed);
   };
 
   // --- GAME LOOP (ORBITS) ---
-  const updateGameLoop = () => {
-      setGameState(prev => {
-          let newCredits = prev.credits;
-          let logs = prev.logs;
-
-          // DOCKING FEE PENALTY
-          // If contract is active AND we are not flying AND we have credits
-          if (prev.activeContract && !prev.isFlying && prev.currentLocationId) {
-             // Every 60 ticks (approx 1 sec) deduct 1 credit
-             if (prev.gameTime % 60 === 0) {
-                 newCredits = Math.max(0, newCredits - 1);
-                 
-                 // Alert player every 10 credits lost or first tick
-                 if (prev.gameTime % 300 === 0) {
-                     logs = ["ALERT: DOCKING OVERTIME PENALTY -1CR", ...logs].slice(0, LOG_MAX_LENGTH);
-                     if (audioInitialized && !isMuted) audioManager.current.playError();
-                 }
-             }
-          }
-
-          return {
-              ...prev,
-              credits: newCredits,
-              logs: logs,
-              gameTime: prev.gameTime + 1
-          };
-      });
+  // Fixed-timestep: real time is banked and spent in whole ticks at
+  // TICK_RATE (times the compression), whatever the display's refresh rate
+  const updateGameLoop = (now: number) => {
+      const elapsed = Math.min(MAX_FRAME_MS, now - (lastFrameRef.current ?? now));
+      lastFrameRef.current = now;
+      accumulatorRef.current += elapsed * timeScaleRef.current;
+
+      const ticks = Math.floor(accumulatorRef.current / TICK_MS);
+      accumulatorRef.current -= ticks * TICK_MS;
+      if (ticks > 0) setGameState(prev => advanceClock(prev, ticks));
+      setRenderAlpha(accumulatorRef.current / TICK_MS);
+
       requestRef.current = requestAnimationFrame(updateGameLoop);
   };
 
+  const changeTimeScale = (scale: TimeScale) => {
+      timeScaleRef.current = scale;
+      accumulatorRef.current = 0;
+      setTimeScale(scale);
+  };
+
   const startGameLoop = () => {
       if (!requestRef.current) {
           requestRef.current = requestAnimationFrame(updateGameLoop);
@@ -153,328 +307,112 @@ export default function App() {
   useEffect(() => {
       return () => {
           if (requestRef.current) cancelAnimationFrame(requestRef.current);
-          if (flightRef.current) cancelAnimationFrame(flightRef.current);
       }
   }, []);
 
+  // Back to the ship's system whenever it changes
+  useEffect(() => {
+    setViewedSystemId(null);
+  }, [shipSystemId]);
+
   // Reset fuel slider on location change
   useEffect(() => {
     setFuelToAdd(0);
   }, [gameState.currentLocationId]);
 
-  // --- GAME LOGIC ---
-
-  // Helper to generate a single random contract
-  const generateNewContract = (stationId: string, currentTime: number, indexOffset: number = 0): Contract | null => {
-      const station = LOCATIONS.find(l => l.id === stationId);
-      if (!station) return null;
-
-      const template = CONTRACT_TEMPLATES[Math.floor(Math.random() * CONTRACT_TEMPLATES.length)];
-      
-      // Select destination: Any location except current
-      const destinations = LOCATIONS.filter(l => l.id !== stationId);
-      const dest = destinations[Math.floor(Math.random() * destinations.length)];
-      
-      const risk = Math.random() > 0.7 ? 'HIGH' : (Math.random() > 0.4 ? 'MED' : 'LOW');
-      const riskPay = risk === 'HIGH' ? 200 : (risk === 'MED' ? 80 : 0);
-      
-      // Duration: 1500 to 4500 ticks (approx 25s to 75s)
-      const duration = 1500 + Math.floor(Math.random() * 3000);
-
-      return {
-        id: `cnt-${Date.now()}-${indexOffset}`,
-        title: template.title,
-        description: template.desc,
-        destinationId: dest.id,
-        pay: Math.floor(template.basePay + riskPay),
-        riskLevel: risk as 'LOW'|'MED'|'HIGH',
-        faction: station.faction,
-        expiresAt: currentTime + duration
-      };
-  };
-
-  // Effect to handle contract generation and lifecycle
+  // Auto-navigate to services on arrival, bypassing the "YOU ARE HERE" screen
   useEffect(() => {
-    // 1. Contract Maintenance (Expiry & Rivals)
-    if (generatedContracts.length > 0) {
-        const now = gameState.gameTime;
-        
-        // Filter out expired contracts
-        const active = generatedContracts.filter(c => c.expiresAt > now);
-        
-        // Random "Rival Runner" Snatch
-        // Chance per tick: 1 in 2000
-        const rivalSnatch = Math.random() < 0.0005;
-        let snatchedId: string | null = null;
-
-        if (rivalSnatch && active.length > 0) {
-             const idx = Math.floor(Math.random() * active.length);
-             snatchedId = active[idx].id;
-             active.splice(idx, 1);
-        }
-        
-        // 2. Replenishment Logic
-        // If we are at a station OR moon, and contracts are low, randomly spawn one
-        if (active.length < 3 && currentLocation) {
-            if (Math.random() < 0.005) { // ~0.5% chance per tick to spawn a new one
-                const newContract = generateNewContract(currentLocation.id, now, Math.random());
-                if (newContract) {
-                    active.push(newContract);
-                }
-            }
-        }
-
-        if (active.length !== generatedContracts.length) {
-            setGeneratedContracts(active);
-            if (snatchedId) {
-                 addLog("ALERT: CONTRACT TAKEN BY RIVAL RUNNER.");
-            }
-        }
-    } else if (currentLocation && !gameState.isFlying) {
-         // If completely empty and we are landed, force spawn one (slowly)
-         if (Math.random() < 0.01) {
-             const newContract = generateNewContract(currentLocation.id, gameState.gameTime, Math.random());
-             if (newContract) setGeneratedContracts([newContract]);
-         }
-    }
-  }, [gameState.gameTime]); // Runs every tick
-
-  // Initial Generation / Refresh on Arrival
-  const spawnContractsForLocation = (stationId: string, currentTime: number) => {
-      const station = LOCATIONS.find(l => l.id === stationId);
-      if (!station) {
-          setGeneratedContracts([]);
-          return;
-      }
-
-      const numContracts = 3;
-      const newContracts: Contract[] = [];
-
-      for (let i = 0; i < numContracts; i++) {
-        const c = generateNewContract(stationId, currentTime, i);
-        if (c) newContracts.push(c);
+      if (!gameState.isFlying && gameState.currentLocationId) {
+          setSelectedLocationId(null);
       }
-      setGeneratedContracts(newContracts);
-  };
+  }, [gameState.currentLocationId, gameState.isFlying]);
 
-  // Travel Logic
-  // Ship position for Map Rendering
-  const shipPos = useMemo((): Coordinates => {
-    if (!gameState.isFlying) {
-      return currentLocation ? currentLocation.coords : CENTER;
-    }
-    
-    const origin = currentLocations.find(l => l.id === gameState.flightOriginId);
-    const dest = currentLocations.find(l => l.id === gameState.flightDestinationId);
-    
-    if (!origin || !dest) return CENTER;
-
-    const x = origin.coords.x + (dest.coords.x - origin.coords.x) * gameState.flightProgress;
-    const y = origin.coords.y + (dest.coords.y - origin.coords.y) * gameState.flightProgress;
-    return { x, y };
-
-  }, [gameState.isFlying, gameState.flightOriginId, gameState.flightDestinationId, gameState.flightProgress, currentLocations, currentLocation]);
-
-  const shipRotation = useMemo(() => {
-    if (!gameState.isFlying || !gameState.flightOriginId || !gameState.flightDestinationId) return 0;
-    const origin = currentLocations.find(l => l.id === gameState.flightOriginId);
-    const dest = currentLocations.find(l => l.id === gameState.flightDestinationId);
-    if (!origin || !dest) return 0;
-    
-    const dy = dest.coords.y - origin.coords.y;
-    const dx = dest.coords.x - origin.coords.x;
-    return (Math.atan2(dy, dx) * 180 / Math.PI) + 90;
-  }, [gameState.isFlying, gameState.flightOriginId, gameState.flightDestinationId, currentLocations]);
-
-
-  // Actual Flight Loop
-  useEffect(() => {
-      if (!gameState.isFlying) return;
-
-      const dest = currentLocations.find(l => l.id === gameState.flightDestinationId);
-      const origin = currentLocations.find(l => l.id === gameState.flightOriginId);
-      
-      if (!dest || !origin) return;
-
-      // FIX: Use getDistance with simple coords. shipPos is already a Coordinate.
-      // Treat shipPos as the current point.
-      const dist = getDistance(shipPos, dest.coords);
-      
-      const flightDurationFrames = 120; // ~2 seconds nominal
-      const progressIncrement = 1 / flightDurationFrames;
-
-      // Calculate fuel burn for this frame based on instant distance
-      const instantDist = getDistance(origin.coords, dest.coords); 
-      const fuelBurn = (instantDist * gameState.ship.fuelEfficiency * 0.5) * progressIncrement; 
-
-      setGameState(prev => {
-          if (prev.fuel <= 0 || prev.hull <= 0) {
-              setGameOver(true);
-              audioManager.current.stopEngine();
-              if (audioInitialized) audioManager.current.playError();
-              return { ...prev, isFlying: false, logs: ["CRITICAL FAILURE.", ...prev.logs] };
-          }
-
-          if (prev.flightProgress >= 1) {
-              // ARRIVAL
-              audioManager.current.stopEngine();
-              if (audioInitialized) audioManager.current.playAccept();
-              
-              const arrivalId = prev.flightDestinationId!;
-              const destName = LOCATIONS.find(l => l.id === arrivalId)?.name || "UNKNOWN";
-              let newCredits = prev.credits;
-              let newContract = prev.activeContract;
-              const newRep = { ...prev.reputation };
-              let msg = `ARRIVED AT ${destName}.`;
-
-              if (prev.activeContract && prev.activeContract.destinationId === arrivalId) {
-                  newCredits += prev.activeContract.pay;
-                  if (prev.activeContract.faction !== Faction.NEUTRAL) {
-                      newRep[prev.activeContract.faction] += 5;
-                  }
-                  msg = `JOB DONE. +${prev.activeContract.pay} CR.`;
-                  if (audioInitialized) audioManager.current.playCash();
-                  newContract = null;
-              }
-
-              return {
-                  ...prev,
-                  isFlying: false,
-                  flightProgress: 0,
-                  currentLocationId: arrivalId,
-                  flightOriginId: null,
-                  flightDestinationId: null,
-                  activeContract: newContract,
-                  credits: newCredits,
-                  reputation: newRep,
-                  logs: [msg, ...prev.logs].slice(0, LOG_MAX_LENGTH)
-              };
-          }
-
-          // In Flight
-          // Random Event
-          let damage = 0;
-          if (Math.random() < 0.005) {
-              damage = 5;
-              if (audioInitialized) audioManager.current.playAlert();
-          }
-
-          return {
-              ...prev,
-              flightProgress: prev.flightProgress + progressIncrement,
-              fuel: prev.fuel - fuelBurn,
-              hull: prev.hull - damage,
-              logs: damage > 0 ? ["ALERT: HULL DAMAGE", ...prev.logs].slice(0, LOG_MAX_LENGTH) : prev.logs
-          };
-      });
-
-  }, [gameState.isFlying, gameState.gameTime]); // Run every tick when flying
-
-  // Trigger contract spawn on arrival AND Auto-navigate to services
+  // Autosave whenever we dock or touch down
   useEffect(() => {
-      if (!gameState.isFlying && gameState.currentLocationId) {
-          spawnContractsForLocation(gameState.currentLocationId, gameState.gameTime);
-          // Auto-navigate to services by clearing selection, bypassing the "YOU ARE HERE" screen
-          setSelectedLocationId(null);
+      if (audioInitialized && !gameState.isFlying && !gameState.isGameOver) {
+          setSaveFailed(!writeSave('auto', gameState));
+          setSaves(listSaves());
       }
-  }, [gameState.currentLocationId, gameState.isFlying]); // When location changes and we stop flying
+  }, [gameState.currentLocationId, gameState.isFlying]);
+
+  const shipPos = useMemo(() => getShipPosition(gameState, drawAlpha), [gameState.isFlying, gameState.flightProgress, gameState.gameTime, gameState.currentLocationId, drawAlpha]);
+  const shipRotation = useMemo(() => getShipRotation(gameState), [gameState.isFlying, gameState.flightOriginId, gameState.flightDestinationId, gameState.gameTime]);
 
-  const startTravel = (targetId: string) => {
+  // --- PLAYER ACTIONS ---
+
+  const startTravel = (route: Route) => {
     playClick();
-    const origin = currentLocation;
-    const dest = currentLocations.find(l => l.id === targetId);
-    
-    if (!origin || !dest) return;
-
-    // FIX: Pass coords specifically
-    const dist = getDistance(origin.coords, dest.coords);
-    const fuelNeeded = getFuelCost(dist);
-
-    if (gameState.fuel < fuelNeeded) {
-        addLog("ERROR: INSUFFICIENT FUEL FOR TRAJECTORY.");
-        if (audioInitialized) audioManager.current.playError();
-        return;
+    const stops = getRouteStops(route);
+    if (stops.length === 1) {
+        dispatch({ type: 'TRAVEL', destinationId: stops[0] });
+    } else {
+        dispatch({ type: 'PLOT_ROUTE', stops });
     }
-
-    addLog(`TRAJECTORY LOCKED: ${dest.name}...`);
-    if (audioInitialized) audioManager.current.startEngine();
-    
-    setGameState(prev => ({
-      ...prev,
-      isFlying: true,
-      flightOriginId: origin.id,
-      flightDestinationId: dest.id,
-      flightProgress: 0
-    }));
   };
 
   const handleWait = () => {
       playClick();
-      // Fast forward 500 ticks
-      const TICKS_TO_WAIT = 500;
-      setGameState(prev => ({
-          ...prev,
-          gameTime: prev.gameTime + TICKS_TO_WAIT,
-          logs: ["WAITING FOR ALIGNMENT...", ...prev.logs].slice(0, LOG_MAX_LENGTH)
-      }));
+      dispatch({ type: 'WAIT' });
+  };
+
+  const handleResolveEvent = (choice: number) => {
+      playClick();
+      dispatch({ type: 'RESOLVE_EVENT', choice });
+  };
+
+  const handlePirateResponse = (response: PirateResponse) => {
+      playClick();
+      dispatch({ type: 'RESPOND_PIRATES', response });
+  };
+
+  const handleAcceptMission = (campaignId: string) => {
+      dispatch({ type: 'ACCEPT_MISSION', campaignId });
+      setBriefingId(null);
+  };
+
+  const handleDebrief = (campaignId: string, choice: number) => {
+      playClick();
+      dispatch({ type: 'DEBRIEF', campaignId, choice });
+  };
+
+  const handleAcknowledge = (id?: number) => {
+      playClick();
+      dispatch({ type: 'ACKNOWLEDGE_LOG', id });
+  };
+
+  const handleWaitForWindow = (until: number) => {
+      playClick();
+      dispatch({ type: 'WAIT_FOR_WINDOW', until });
   };
 
   const handleAcceptContract = (c: Contract) => {
-      if (gameState.activeContract) {
-          addLog("ERROR: ACTIVE CONTRACT IN PROGRESS.");
-          if (audioInitialized) audioManager.current.playError();
-          return;
-      }
-      if (audioInitialized) audioManager.current.playAccept();
-      setGameState(prev => ({
-          ...prev,
-          activeContract: c,
-          logs: [`ACCEPTED: ${c.title}`, ...prev.logs].slice(0, LOG_MAX_LENGTH)
-      }));
-      setGeneratedContracts(prev => prev.filter(con => con.id !== c.id));
-      
+      const fits = c.cargoSize <= getHoldSpace(gameState);
+      dispatch({ type: 'ACCEPT_CONTRACT', contractId: c.id });
       // Select the destination automatically to encourage flight
-      setSelectedLocationId(c.destinationId);
+      if (fits) setSelectedLocationId(c.destinationId);
   };
 
   const confirmRefuel = () => {
-      if (!currentLocation?.fuelPrice || fuelToAdd <= 0) return;
-      const cost = Math.floor(fuelToAdd * currentLocation.fuelPrice);
-      
-      if (gameState.credits >= cost) {
-          if (audioInitialized) audioManager.current.playCash();
-          setGameState(prev => ({
-              ...prev,
-              fuel: Math.min(prev.ship.maxFuel, prev.fuel + fuelToAdd),
-              credits: prev.credits - cost,
-              logs: [`REFUELED ${fuelToAdd.toFixed(0)}L. -${cost} CR`, ...prev.logs].slice(0, LOG_MAX_LENGTH)
-          }));
-          setFuelToAdd(0);
-      }
+      dispatch({ type: 'REFUEL', amount: fuelToAdd });
+      setFuelToAdd(0);
   };
 
   const handleRepair = () => {
-    const repairCostPerHp = 2;
-    const hpNeeded = gameState.ship.maxHull - gameState.hull;
-    const cost = hpNeeded * repairCostPerHp;
-    if (hpNeeded <= 0) return;
-
-    if (gameState.credits >= cost) {
-        if (audioInitialized) audioManager.current.playCash();
-        setGameState(prev => ({
-            ...prev,
-            hull: prev.ship.maxHull,
-            credits: prev.credits - cost,
-            logs: ["HULL REPAIRED.", ...prev.logs].slice(0, LOG_MAX_LENGTH)
-        }));
-    } else {
-        addLog("INSUFFICIENT FUNDS.");
-        if (audioInitialized) audioManager.current.playError();
-    }
+      dispatch({ type: 'REPAIR' });
+  };
+
+  // A jump is just a leg to the gate at the far end
+  const handleJump = (twinId: string) => {
+      playClick();
+      dispatch({ type: 'TRAVEL', destinationId: twinId });
   };
 
   // --- UI RENDERERS ---
 
+  if (replayLog) {
+      return <ReplayViewer replay={replayLog} onExit={closeReplay} />;
+  }
+
   if (!audioInitialized) {
       return (
         <div className="w-full h-screen bg-black flex flex-col items-center justify-center font-display text-amber-500 crt relative">
@@ -483,6 +421,25 @@ export default function App() {
                 <Power className="w-16 h-16 mx-auto mb-6 text-amber-500 animate-pulse" />
                 <h1 className="text-4xl font-bold tracking-widest mb-2">SYSTEM OFFLINE</h1>
                 <p className="text-xl font-mono text-amber-700 mb-8">INITIALIZE COCKPIT CONTROLS</p>
+
+                <div className="flex items-center justify-center gap-2 mb-8 font-mono text-sm">
+                    <label htmlFor="seed" className="text-amber-700 tracking-widest">SEED:</label>
+                    <input 
+                        id="seed"
+                        type="text"
+                        value={seedInput}
+                        onChange={(e) => setSeedInput(e.target.value.toUpperCase())}
+                        maxLength={16}
+                        spellCheck={false}
+                        className="bg-black border border-amber-900 focus:border-amber-500 outline-none text-amber-500 px-2 py-1 w-40 text-center tracking-widest uppercase"
+                    />
+                    <button onClick={() => setSeedInput(randomSeed())} className="text-amber-700 hover:text-amber-500">[REROLL]</button>
+                </div>
+                <div className="flex items-center justify-center gap-2 -mt-6 mb-8 font-mono text-sm">
+                    <span className="text-amber-700 tracking-widest">SYSTEM:</span>
+                    <button onClick={() => setClassicSystem(false)} className={classicSystem ? 'text-amber-900 hover:text-amber-500' : 'text-amber-500'}>[FROM SEED]</button>
+                    <button onClick={() => setClassicSystem(true)} className={classicSystem ? 'text-amber-500' : 'text-amber-900 hover:text-amber-500'}>[CLASSIC]</button>
+                </div>
                 
                 <button 
                     onClick={initAudio}
@@ -491,27 +448,97 @@ export default function App() {
                     <span className="absolute inset-0 border border-amber-500 scale-105 opacity-0 group-hover:scale-110 group-hover:opacity-100 transition-all duration-300"></span>
                     Engage Systems
                 </button>
+
+                <div className="flex justify-center gap-4 mt-6 font-mono text-sm">
+                    {saves.some(sv => sv.slot === 'auto') && (
+                        <button 
+                            onClick={() => resumeFrom('auto')}
+                            className="px-4 py-2 border border-amber-700 text-amber-500 hover:border-amber-500 hover:bg-amber-900/30 uppercase tracking-widest"
+                        >
+                            Resume
+                        </button>
+                    )}
+                    {saves.length > 0 && (
+                        <button 
+                            onClick={() => setShowLoadMenu(!showLoadMenu)}
+                            className="px-4 py-2 border border-amber-900 text-amber-700 hover:text-amber-500 hover:border-amber-500 uppercase tracking-widest"
+                        >
+                            Load Slot
+                        </button>
+                    )}
+                    <label className="px-4 py-2 border border-amber-900 text-amber-700 hover:text-amber-500 hover:border-amber-500 uppercase tracking-widest cursor-pointer">
+                        Load Replay
+                        <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => importReplay(e.target.files?.[0])} />
+                    </label>
+                    <button 
+                        onClick={() => setShowPacks(true)}
+                        className="px-4 py-2 border border-amber-900 text-amber-700 hover:text-amber-500 hover:border-amber-500 uppercase tracking-widest"
+                    >
+                        Packs{packStore.enabled.length > 0 && ` (${packStore.enabled.length})`}
+                    </button>
+                </div>
+                {replayError && <p className="mt-2 text-xs font-mono text-red-500">REPLAY TAPE UNREADABLE OR FROM ANOTHER BUILD</p>}
+                {missingPacks.length > 0 && <p className="mt-2 text-xs font-mono text-red-500">MISSING CONTENT PACKS: {missingPacks.join(', ')}</p>}
+
+                {showLoadMenu && (
+                    <div className="flex justify-center mt-4">
+                        <SaveSlots mode="load" saves={saves} onSelect={resumeFrom} onClose={() => setShowLoadMenu(false)} />
+                    </div>
+                )}
             </div>
+
+            {showPacks && (
+                <ContentPackMenu
+                    store={packStore}
+                    errors={packErrors}
+                    onToggle={(id, enabled) => setPackStore(setPackEnabled(id, enabled))}
+                    onRemove={(id) => setPackStore(removePack(id))}
+                    onImport={importPack}
+                    onClose={() => { setShowPacks(false); setPackErrors([]); }}
+                />
+            )}
         </div>
       );
   }
 
-  if (gameOver) {
+  if (gameState.isGameOver) {
       return (
           <div className="w-full h-screen bg-black flex items-center justify-center font-display text-red-500 crt">
               <div className="text-center">
                   <h1 className="text-6xl mb-4 font-bold tracking-tighter">SIGNAL LOST</h1>
                   <p className="text-2xl mb-8 font-mono">PILOT STATUS: TERMINATED</p>
                   <p className="mb-8 text-amber-500">CREDITS EARNED: {gameState.credits}</p>
-                  <button onClick={() => window.location.reload()} className="border border-red-500 px-6 py-3 hover:bg-red-900/20 text-lg uppercase tracking-widest">
-                      Reboot System
-                  </button>
+                  <div className="w-96 mx-auto mb-8 text-left">
+                      <RunReport title="RUN REPORT" stats={gameState.stats} />
+                      <p className="font-mono text-xs text-amber-700 mt-2">
+                          ACHIEVEMENTS: {gameState.achievements.length > 0
+                              ? gameState.achievements.map(id => ACHIEVEMENTS.find(a => a.id === id)?.name.toUpperCase()).join(' // ')
+                              : 'NONE'}
+                      </p>
+                  </div>
+                  <div className="flex justify-center gap-4">
+                      <button onClick={() => window.location.reload()} className="border border-red-500 px-6 py-3 hover:bg-red-900/20 text-lg uppercase tracking-widest">
+                          Reboot System
+                      </button>
+                      <button onClick={() => setReplayLog(buildReplay(gameState))} className="border border-amber-700 text-amber-500 px-6 py-3 hover:bg-amber-900/20 text-lg uppercase tracking-widest">
+                          Review Run
+                      </button>
+                      <button onClick={exportReplay} className="border border-amber-900 text-amber-700 px-6 py-3 hover:text-amber-500 text-lg uppercase tracking-widest">
+                          Export Replay
+                      </button>
+                  </div>
               </div>
           </div>
       );
   }
 
   const isLanded = !gameState.isFlying && currentLocation;
+  const shipyard = getShipyard(currentLocation);
+  const hasCargo = gameState.activeContracts.length > 0;
+  const servicesAvailable = servicesOpen(gameState, currentLocation);
+  const fuelPrice = getFuelPrice(gameState, currentLocation);
+  const loanOffer = getLoanOffer(gameState, currentLocation);
+  const debt = getDebt(gameState);
 
   return (
     <div className="w-full h-screen bg-zinc-950 p-4 flex flex-col crt select-none overflow-hidden">
@@ -522,7 +549,7 @@ export default function App() {
                     <Radio className="animate-pulse" />
                     LUNAR RUNNER '47
                 </h1>
-                <span className="text-xs font-mono text-zinc-500 mt-1">v1.3.0 // ORBITAL SYNC ACTIVE</span>
+                <span className="text-xs font-mono text-zinc-500 mt-1">v1.3.0 // ORBITAL SYNC ACTIVE // SEED {gameState.seed}</span>
             </div>
             
             <div className="flex items-center gap-8 font-mono text-amber-400">
@@ -530,11 +557,43 @@ export default function App() {
                     {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
                 </button>
 
+                <button onClick={() => { playClick(); setShowStats(true); }} className="hover:text-amber-200 transition-colors" title="Pilot record">
+                    <Trophy size={20} />
+                </button>
+
+                <button onClick={() => { playClick(); setShowLedger(true); }} className="hover:text-amber-200 transition-colors" title="Ledger">
+                    <BookOpen size={20} />
+                </button>
+
+                <button onClick={exportReplay} className="hover:text-amber-200 transition-colors" title="Export replay">
+                    <Film size={20} />
+                </button>
+
+                <div className="relative">
+                    <button onClick={() => { playClick(); setShowSaveMenu(!showSaveMenu); }} className={`hover:text-amber-200 transition-colors ${saveFailed ? 'text-red-500 animate-pulse' : ''}`} title={saveFailed ? "LAST SAVE FAILED: STORAGE FULL" : "Save"}>
+                        <Save size={20} />
+                    </button>
+                    {showSaveMenu && (
+                        <div className="absolute right-0 top-8 z-50">
+                            <SaveSlots mode="save" saves={saves} onSelect={saveTo} onClose={() => setShowSaveMenu(false)} onHover={playHover} />
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-2 text-sm tracking-widest">
+                    <Clock size={18} />
+                    <span>{formatClock(gameState.gameTime)}</span>
+                </div>
                 <div className="flex items-center gap-2">
                     <DollarSign size={18} />
-                    <span className={`text-xl tracking-widest ${gameState.activeContract && !gameState.isFlying ? "text-red-500 animate-pulse" : ""}`}>
+                    <span className={`text-xl tracking-widest ${hasCargo && !gameState.isFlying ? "text-red-500 animate-pulse" : ""}`}>
                         {gameState.credits.toString().padStart(5, '0')}
                     </span>
+                    {debt > 0 && (
+                        <span className={`text-xs tracking-widest ${gameState.loans.some(l => l.arrears > 0) ? "text-red-500 animate-pulse" : "text-red-400"}`} title="Outstanding loans">
+                            DEBT {debt}
+                        </span>
+                    )}
                 </div>
                 <div className="flex items-center gap-2">
                     <Fuel size={18} className={gameState.fuel < 100 ? "text-red-500 animate-pulse" : ""} />
@@ -551,23 +610,47 @@ export default function App() {
             </div>
         </header>
 
+        {showStats && <StatsScreen state={gameState} career={career} onClose={() => setShowStats(false)} />}
+        {showLedger && <LedgerScreen ledger={gameState.ledger} locations={LOCATIONS} onExport={exportLedger} onClose={() => setShowLedger(false)} />}
+
         {/* MAIN CONTENT */}
         <div className="flex-1 flex gap-4 overflow-hidden">
             {/* LEFT PANEL: MAP & SHIP VIEW */}
             <div className="flex-[2] relative flex flex-col min-w-0">
                 <div className="absolute top-4 left-4 z-20 pointer-events-none">
                     <div className="bg-zinc-950/80 border border-amber-900 p-2 text-amber-500 font-mono text-xs shadow-lg">
+                        <p>SYS: {getSystem(shipSystemId)?.name.toUpperCase() ?? "UNKNOWN"}</p>
                         <p>LOC: {currentLocation?.name.toUpperCase() ?? "UNKNOWN"}</p>
                         <p>STS: {gameState.isFlying ? "IN TRANSIT" : "DOCKED"}</p>
-                        {gameState.activeContract && (
-                             <p className="text-cyan-400 mt-1">JOB: {gameState.activeContract.title}</p>
-                        )}
+                        {gameState.activeContracts.map(c => {
+                             // Countdown to the deadline, then to the hard cutoff once late
+                             const late = isLate(c, gameState.gameTime);
+                             const target = late ? c.failsAt : c.deadline;
+                             const secondsLeft = target !== undefined ? Math.max(0, Math.ceil((target - gameState.gameTime) / TICK_RATE)) : null;
+                             return (
+                                 <p key={c.id} className={`mt-1 ${late ? "text-red-500 animate-pulse" : "text-cyan-400"}`}>
+                                     JOB: {c.title}{secondsLeft !== null && ` // ${late ? 'LATE, FAILS IN' : 'DUE'} ${secondsLeft}s`}
+                                 </p>
+                             );
+                        })}
                     </div>
                 </div>
 
-                {/* WAIT BUTTON */}
-                {!gameState.isFlying && (
-                    <div className="absolute top-4 right-4 z-20">
+                {/* TIME CONTROLS + WAIT BUTTON */}
+                <div className="absolute top-4 right-4 z-20 flex flex-col items-end gap-2">
+                    <div className="bg-zinc-900 border border-amber-900 flex text-xs font-bold font-mono shadow-lg" onMouseEnter={playHover}>
+                        {TIME_SCALES.map(scale => (
+                            <button
+                                key={scale}
+                                onClick={() => { playClick(); changeTimeScale(scale); }}
+                                className={`px-2 py-2 flex items-center transition-colors ${timeScale === scale ? 'bg-amber-500 text-black' : 'text-amber-500 hover:bg-amber-900/30'}`}
+                                title={scale === 0 ? 'Pause' : `${scale}x time`}
+                            >
+                                {scale === 0 ? <Pause size={14} /> : `${scale}X`}
+                            </button>
+                        ))}
+                    </div>
+                    {!gameState.isFlying && (
                          <button 
                             onClick={handleWait}
                             onMouseEnter={playHover}
@@ -576,29 +659,98 @@ export default function App() {
                             <Clock size={14} />
                             Wait (1h)
                          </button>
-                    </div>
+                    )}
+                    <button
+                        onClick={() => { playClick(); setShowGalaxy(!showGalaxy); }}
+                        onMouseEnter={playHover}
+                        className="bg-zinc-900 border border-amber-900 hover:border-amber-500 text-amber-500 px-3 py-2 flex items-center gap-2 text-xs font-bold uppercase tracking-widest shadow-lg active:bg-amber-900/30"
+                    >
+                        {showGalaxy ? <Orbit size={14} /> : <Globe size={14} />}
+                        {showGalaxy ? 'System' : 'Galaxy'}
+                    </button>
+                </div>
+
+                {showGalaxy ? (
+                    <GalaxyMap
+                        systems={STAR_SYSTEMS}
+                        locations={LOCATIONS}
+                        shipSystemId={shipSystemId}
+                        viewedSystemId={viewedSystem.id}
+                        cargoSystems={cargoSystems}
+                        onSelect={(id) => {
+                            playClick();
+                            setViewedSystemId(id === shipSystemId ? null : id);
+                            setShowGalaxy(false);
+                        }}
+                        onHover={playHover}
+                    />
+                ) : (
+                    <GameMap 
+                        gameState={gameState} 
+                        system={viewedSystem}
+                        locations={mapLocations.filter(l => l.system === viewedSystem.id)}
+                        onLocationClick={(loc) => {
+                            playClick();
+                            setSelectedLocationId(loc.id);
+                            setRouteChoice(null);
+                        }}
+                        onHover={playHover}
+                        shipPosition={shipPos}
+                        shipRotation={shipRotation}
+                        plannedCourses={chosenRoute ? chosenRoute.legs.map(leg => leg.plan) : []}
+                    />
                 )}
 
-                <GameMap 
-                    gameState={gameState} 
-                    locations={currentLocations}
-                    onLocationClick={(loc) => {
-                        playClick();
-                        setSelectedLocationId(loc.id);
-                    }}
-                    onHover={playHover}
-                    shipPosition={shipPos}
-                    shipRotation={shipRotation}
-                />
+                {/* FLIGHT EVENT - the clock holds until the player decides */}
+                {pendingEvent && gameState.pendingEvent && (
+                    <EventDialog
+                        event={pendingEvent}
+                        faction={gameState.pendingEvent.faction}
+                        credits={gameState.credits}
+                        onChoose={handleResolveEvent}
+                        onHover={playHover}
+                    />
+                )}
 
-                {/* LOG CONSOLE */}
-                <div className="absolute bottom-4 left-4 right-4 h-24 pointer-events-none">
-                    <div className="w-full h-full bg-black/40 backdrop-blur-sm border-t border-amber-900/30 p-2 font-mono text-xs text-amber-500/80 flex flex-col justify-end">
-                        {gameState.logs.map((log, i) => (
-                            <p key={i} className="opacity-80 drop-shadow-md">> {log}</p>
-                        ))}
-                    </div>
-                </div>
+                {/* PIRATES - same hold on the clock */}
+                {gameState.encounter && (
+                    <PirateDialog
+                        encounter={gameState.encounter}
+                        credits={gameState.credits}
+                        cargoValue={getCargoValue(gameState)}
+                        escapeChance={getEscapeChance(gameState)}
+                        fightChance={getFightChance(gameState)}
+                        onRespond={handlePirateResponse}
+                        onHover={playHover}
+                    />
+                )}
+
+                {/* CAMPAIGN DIALOGUE - briefings on request, debriefs as soon as the cargo lands */}
+                {pendingDebrief ? (
+                    <CampaignDialog
+                        campaign={pendingDebrief.campaign}
+                        step={pendingDebrief.step}
+                        mode="debrief"
+                        locations={currentLocations}
+                        holdSpace={getHoldSpace(gameState)}
+                        onChoose={(choice) => handleDebrief(pendingDebrief.campaign.id, choice)}
+                        onHover={playHover}
+                    />
+                ) : briefing && (
+                    <CampaignDialog
+                        campaign={briefing.campaign}
+                        step={briefing.step}
+                        mode="briefing"
+                        locations={currentLocations}
+                        holdSpace={getHoldSpace(gameState)}
+                        onAccept={() => handleAcceptMission(briefing.campaign.id)}
+                        onDecline={() => { playClick(); setBriefingId(null); }}
+                        onHover={playHover}
+                    />
+                )}
+
+                {/* COMMS CONSOLE */}
+                <CommsConsole logs={gameState.logs} onAcknowledge={handleAcknowledge} onHover={playHover} />
             </div>
 
             {/* RIGHT PANEL: INTERFACE */}
@@ -610,6 +762,14 @@ export default function App() {
                             <RocketIcon className="w-16 h-16 text-amber-500 mb-4" />
                             <h2 className="text-xl font-display text-amber-500 mb-2">TRAJECTORY LOCKED</h2>
                             <p className="font-mono text-sm text-amber-700">Distance to Target: {Math.round((1 - gameState.flightProgress) * 100)}%</p>
+                            {gameState.flightPlan && (
+                                <p className="font-mono text-xs text-amber-700/70 mt-1">INTERCEPT IN {Math.max(0, gameState.flightPlan.departTime + gameState.flightPlan.duration - gameState.gameTime)} TICKS</p>
+                            )}
+                            {gameState.autopilot.length > 0 && (
+                                <p className="font-mono text-xs text-cyan-400/70 mt-1 uppercase">
+                                    THEN: {gameState.autopilot.map(id => LOCATIONS.find(l => l.id === id)?.name ?? id).join(' > ')}
+                                </p>
+                            )}
                             <div className="w-full h-1 bg-zinc-800 mt-4">
                                 <div className="h-full bg-amber-500 transition-all duration-75" style={{ width: `${gameState.flightProgress * 100}%`}}></div>
                             </div>
@@ -619,33 +779,40 @@ export default function App() {
                          <div className="h-full flex flex-col">
                              <div className="border-b border-amber-900/50 pb-4 mb-4">
                                 <h2 className="text-2xl font-display text-amber-500 uppercase">{selectedLocation.name}</h2>
-                                <p className="text-amber-700 text-sm font-mono mt-1">{selectedLocation.type} | {selectedLocation.faction}</p>
+                                <p className="text-amber-700 text-sm font-mono mt-1 flex items-center gap-2">{selectedLocation.type} | <span style={{ color: getFactionColor(selectedLocation.faction) }}>{selectedLocation.faction}</span> <RepBadge profile={getTierProfile(gameState, selectedLocation.faction)} /></p>
                                 <p className="text-amber-100/50 text-xs mt-2 italic">"{selectedLocation.description}"</p>
                              </div>
 
                              {selectedLocation.id !== gameState.currentLocationId ? (
                                 <div className="space-y-4">
-                                    <div className="bg-black/20 p-4 border border-amber-900/30">
-                                        <div className="flex justify-between text-sm font-mono text-amber-500 mb-2">
-                                            <span>DISTANCE</span>
-                                            {/* Calculate dynamic distance SAFE */}
-                                            <span>{currentLocation ? Math.round(getDistance(currentLocation.coords, selectedLocation.coords)) : 'ERR'} AU</span>
-                                        </div>
-                                        <div className="flex justify-between text-sm font-mono text-amber-500 mb-2">
-                                            <span>FUEL REQ</span>
-                                            <span className={currentLocation && gameState.fuel < getFuelCost(getDistance(currentLocation.coords, selectedLocation.coords)) ? "text-red-500" : ""}>
-                                                {currentLocation ? Math.round(getFuelCost(getDistance(currentLocation.coords, selectedLocation.coords))) : 0} L
-                                            </span>
-                                        </div>
-                                    </div>
+                                    <RoutePlanner
+                                        routes={routes}
+                                        ranking={routeRanking}
+                                        selected={chosenRoute}
+                                        locations={currentLocations}
+                                        gameTime={gameState.gameTime}
+                                        onRank={(by) => { playClick(); setRouteRanking(by); setRouteChoice(null); }}
+                                        onSelect={(route) => { playClick(); setRouteChoice(getRouteKey(route)); }}
+                                        onHover={playHover}
+                                    />
+
+                                    <LaunchForecast
+                                        samples={launchForecast.samples}
+                                        windows={launchForecast.windows.filter(w => w.departTime > gameState.gameTime)}
+                                        gameTime={gameState.gameTime}
+                                        fuel={gameState.fuel}
+                                        dockingFees={(until) => getDockingFees(gameState, until)}
+                                        onWait={handleWaitForWindow}
+                                        onHover={playHover}
+                                    />
                                     
                                     <button 
-                                        onClick={() => startTravel(selectedLocation.id)}
+                                        onClick={() => chosenRoute && startTravel(chosenRoute)}
                                         onMouseEnter={playHover}
                                         className="w-full bg-amber-500 text-black font-bold py-3 uppercase tracking-widest hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed"
-                                        disabled={!currentLocation || gameState.fuel < getFuelCost(getDistance(currentLocation.coords, selectedLocation.coords))}
+                                        disabled={!chosenRoute}
                                     >
-                                        ENGAGE AUTOPILOT
+                                        {canDockAt(gameState, selectedLocation) ? 'ENGAGE AUTOPILOT' : 'DOCKING DENIED'}
                                     </button>
                                     <button 
                                         onClick={() => { playClick(); setSelectedLocationId(null); }}
@@ -667,30 +834,63 @@ export default function App() {
                         <div className="space-y-6">
                             <div className="flex items-center justify-between border-b border-amber-900/50 pb-2">
                                 <h2 className="font-display text-xl text-amber-500">
-                                    {currentLocation.type === LocationType.STATION ? "STATION SERVICES" : "SURFACE LOGISTICS"}
+                                    {currentLocation.type === LocationType.STATION ? "STATION SERVICES" : currentLocation.type === LocationType.GATE ? "GATE CONTROL" : "SURFACE LOGISTICS"}
                                 </h2>
-                                <span className="text-xs font-mono text-zinc-500">{currentLocation?.faction}</span>
+                                <span className="text-xs font-mono text-zinc-500 flex items-center gap-2"><span style={{ color: getFactionColor(currentLocation.faction) }}>{currentLocation?.faction}</span> <RepBadge profile={getTierProfile(gameState, currentLocation.faction)} /></span>
                             </div>
+
+                            {/* HOSTILE FACTION WARNING */}
+                            {!servicesAvailable && (
+                                <div className="bg-red-900/20 border border-red-500/50 p-2 flex items-center justify-between text-red-400">
+                                    <span className="text-xs font-bold">⚠ HOSTILE TERRITORY</span>
+                                    <span className="text-[10px] font-mono">EMERGENCY FUEL ONLY</span>
+                                </div>
+                            )}
                             
                             {/* DOCKING PENALTY WARNING */}
-                            {gameState.activeContract && (
+                            {hasCargo && (
                                 <div className="bg-red-900/20 border border-red-500/50 p-2 mb-2 flex items-center justify-between text-red-400 animate-pulse">
                                     <span className="text-xs font-bold">⚠ DEPARTURE OVERDUE</span>
                                     <span className="text-[10px] font-mono">FEES ACCUMULATING</span>
                                 </div>
                             )}
 
+                            {/* JUMP GATE */}
+                            {currentLocation.gate && (() => {
+                                const twin = getTwinGate(currentLocation);
+                                const { toll, fuel } = currentLocation.gate;
+                                return (
+                                    <div className="bg-zinc-900/50 border border-zinc-700 p-3">
+                                        <div className="flex justify-between items-center mb-2">
+                                            <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase">
+                                                <Orbit size={14} />
+                                                <span>Jump Gate</span>
+                                            </div>
+                                            <div className="text-xs font-mono text-amber-700">{toll} CR // {fuel} L</div>
+                                        </div>
+                                        <button
+                                            onClick={() => twin && handleJump(twin.id)}
+                                            onMouseEnter={playHover}
+                                            disabled={!twin || gameState.credits < toll || gameState.fuel < fuel}
+                                            className="w-full bg-amber-900/30 border border-amber-500 text-amber-500 text-xs py-2 uppercase tracking-widest hover:bg-amber-500 hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            Jump to {getSystem(twin?.system)?.name ?? 'UNKNOWN'}
+                                        </button>
+                                    </div>
+                                );
+                            })()}
+
                             {/* REFUEL & REPAIR GRID */}
                             <div className="grid grid-cols-1 gap-4">
                                 {/* FUEL PUMP */}
-                                {currentLocation.fuelPrice && (
+                                {fuelPrice && (
                                 <div className="bg-zinc-900/50 border border-zinc-700 p-3">
                                     <div className="flex justify-between items-center mb-2">
                                         <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase">
                                             <Droplets size={14} />
                                             <span>Fuel Pump</span>
                                         </div>
-                                        <div className="text-xs font-mono text-amber-700">{currentLocation.fuelPrice} CR/L</div>
+                                        <div className="text-xs font-mono text-amber-700">{fuelPrice} CR/L</div>
                                     </div>
 
                                     {/* Slider & Controls */}
@@ -698,10 +898,11 @@ export default function App() {
                                         const maxCapacity = gameState.ship.maxFuel;
                                         const currentFuel = gameState.fuel;
                                         const spaceEmpty = maxCapacity - currentFuel;
-                                        const price = currentLocation.fuelPrice;
-                                        const maxAffordable = Math.floor(gameState.credits / price);
+                                        const price = fuelPrice;
+                                        // Most litres whose cost, rounded down, is still within reach
+                                        const maxAffordable = Math.ceil((gameState.credits + 1) / price) - 1;
                                         const maxBuyable = Math.min(spaceEmpty, maxAffordable);
-                                        const cost = Math.ceil(fuelToAdd * price);
+                                        const cost = getRefuelCost(fuelToAdd, price);
 
                                         return (
                                             <div className="space-y-3">
@@ -719,18 +920,19 @@ export default function App() {
                                                     <div className="flex gap-2">
                                                         <button 
                                                             onClick={() => {
-                                                                if (gameState.activeContract) {
-                                                                     const dest = currentLocations.find(l => l.id === gameState.activeContract?.destinationId);
-                                                                     if (dest) {
-                                                                         const dist = getDistance(currentLocation.coords, dest.coords);
-                                                                         const needed = Math.ceil(getFuelCost(dist));
-                                                                         const toBuy = Math.max(0, needed - currentFuel);
-                                                                         setFuelToAdd(Math.min(toBuy, maxBuyable));
-                                                                     }
+                                                                // Enough to reach the nearest drop
+                                                                const drops = gameState.activeContracts
+                                                                    .map(c => planTravel(gameState, c.destinationId))
+                                                                    .filter(Boolean)
+                                                                    .map(plan => plan!.fuel);
+                                                                if (drops.length > 0) {
+                                                                    const needed = Math.ceil(Math.min(...drops));
+                                                                    const toBuy = Math.max(0, needed - currentFuel);
+                                                                    setFuelToAdd(Math.min(toBuy, maxBuyable));
                                                                 }
                                                             }} 
                                                             className="hover:text-amber-500 disabled:opacity-30"
-                                                            disabled={!gameState.activeContract}
+                                                            disabled={!hasCargo}
                                                         >
                                                             [REQ]
                                                         </button>
@@ -758,29 +960,105 @@ export default function App() {
                                 )}
 
                                 {/* REPAIR BUTTON */}
-                                <button 
-                                    onClick={handleRepair}
-                                    onMouseEnter={playHover}
-                                    className="bg-zinc-800 p-2 border border-zinc-700 hover:border-amber-500 group flex items-center justify-between px-4"
-                                >
-                                    <div className="flex items-center gap-2">
-                                        <Settings size={16} className="text-amber-600 group-hover:text-amber-400" />
-                                        <span className="text-xs text-amber-500 uppercase font-bold">Repair Hull</span>
-                                    </div>
-                                    <span className="text-[10px] font-mono text-zinc-500 group-hover:text-amber-500">2 CR / HP</span>
-                                </button>
+                                {servicesAvailable && (
+                                    <button 
+                                        onClick={handleRepair}
+                                        onMouseEnter={playHover}
+                                        className="bg-zinc-800 p-2 border border-zinc-700 hover:border-amber-500 group flex items-center justify-between px-4"
+                                    >
+                                        <div className="flex items-center gap-2">
+                                            <Settings size={16} className="text-amber-600 group-hover:text-amber-400" />
+                                            <span className="text-xs text-amber-500 uppercase font-bold">Repair Hull</span>
+                                        </div>
+                                        <span className="text-[10px] font-mono text-zinc-500 group-hover:text-amber-500">{getRepairPrice(gameState, currentLocation)} CR / HP</span>
+                                    </button>
+                                )}
+
+                                {/* SHIPYARD - STATIONS ONLY */}
+                                {shipyard && servicesAvailable && (
+                                    <Shipyard 
+                                        yard={shipyard}
+                                        offers={getUpgradeOffers(gameState, currentLocation)}
+                                        ship={gameState.ship}
+                                        credits={gameState.credits}
+                                        onBuy={(offer) => { playClick(); dispatch({ type: 'BUY_UPGRADE', upgrade: offer.line.kind }); }}
+                                        onHover={playHover}
+                                    />
+                                )}
+
+                                {/* BANK - STATIONS ONLY */}
+                                {loanOffer && servicesAvailable && (
+                                    <Bank
+                                        offer={loanOffer}
+                                        loan={getLoan(gameState, loanOffer.faction)}
+                                        credits={gameState.credits}
+                                        savings={gameState.savings}
+                                        onBorrow={(amount) => { playClick(); dispatch({ type: 'TAKE_LOAN', amount }); }}
+                                        onRepay={(amount) => { playClick(); dispatch({ type: 'REPAY_LOAN', amount }); }}
+                                        onDeposit={(amount) => { playClick(); dispatch({ type: 'DEPOSIT', amount }); }}
+                                        onWithdraw={(amount) => { playClick(); dispatch({ type: 'WITHDRAW', amount }); }}
+                                        onHover={playHover}
+                                    />
+                                )}
+
+                                {/* INSURANCE - STATIONS ONLY */}
+                                {currentLocation.type === LocationType.STATION && servicesAvailable && (
+                                    <Insurance
+                                        hullCover={isCovered(gameState) ? gameState.hullCover : null}
+                                        hullPremium={getHullPremium(gameState, currentLocation)}
+                                        cargo={gameState.activeContracts.map(c => ({
+                                            contract: c,
+                                            premium: isInsurable(c) ? getCargoPremium(gameState, c, currentLocation) : null
+                                        }))}
+                                        recentDamage={getRecentDamage(gameState)}
+                                        credits={gameState.credits}
+                                        onBuyHull={() => { playClick(); dispatch({ type: 'BUY_HULL_COVER' }); }}
+                                        onInsureCargo={(c) => { playClick(); dispatch({ type: 'INSURE_CARGO', contractId: c.id }); }}
+                                        onHover={playHover}
+                                    />
+                                )}
+
+                                {/* COMMODITY MARKET */}
+                                {servicesAvailable && (
+                                <MarketPanel 
+                                    quotes={getMarketQuotes(gameState, currentLocation.id)}
+                                    credits={gameState.credits}
+                                    holdSpace={getHoldSpace(gameState)}
+                                    onBuy={(commodity, quantity) => { playClick(); dispatch({ type: 'BUY_GOODS', commodity, quantity }); }}
+                                    onSell={(commodity, quantity) => { playClick(); dispatch({ type: 'SELL_GOODS', commodity, quantity }); }}
+                                    onHover={playHover}
+                                />
+                                )}
+
+                                {/* FACTION CAMPAIGNS */}
+                                <CampaignBoard
+                                    campaigns={CAMPAIGNS}
+                                    progress={gameState.campaigns}
+                                    offers={missionOffers}
+                                    locations={currentLocations}
+                                    onBrief={(offer) => { playClick(); setBriefingId(offer.campaign.id); }}
+                                    onHover={playHover}
+                                />
+
+                                {/* WEEKLY STATION EVENTS AND NIGHTLY BILLS */}
+                                <StationSchedule
+                                    schedule={getStationSchedule(gameState.gameTime)}
+                                    dailyCosts={getDailyCosts(gameState)}
+                                    locations={currentLocations}
+                                    gameTime={gameState.gameTime}
+                                />
                             </div>
 
                             {/* CONTRACTS - NOW AVAILABLE AT MOONS AND STATIONS */}
                             <div>
                                 <h3 className="text-xs font-bold text-amber-700 uppercase tracking-widest mb-3 border-l-2 border-amber-700 pl-2">Available Contracts</h3>
                                 <div className="space-y-2">
-                                    {generatedContracts.length > 0 ? (
-                                        generatedContracts.map(c => {
+                                    {gameState.contracts.length > 0 ? (
+                                        gameState.contracts.map(c => {
                                             const dest = currentLocations.find(l => l.id === c.destinationId);
-                                            // FIX: Safe checks for currentLocation and dest
-                                            const dist = (dest && currentLocation) ? getDistance(currentLocation.coords, dest.coords) : 0;
-                                            const cost = getFuelCost(dist);
+                                            const plan = planTravel(gameState, c.destinationId);
+                                            const dist = plan ? plan.distance : 0;
+                                            const cost = plan ? plan.fuel : 0;
                                             const destName = dest?.name || "Unknown";
 
                                             return (
@@ -789,11 +1067,13 @@ export default function App() {
                                                     contract={c} 
                                                     onAccept={handleAcceptContract}
                                                     canAffordFuel={gameState.fuel >= cost}
+                                                    holdSpace={getHoldSpace(gameState)}
                                                     currentDistance={dist}
                                                     currentFuelCost={cost}
                                                     onHover={playHover}
                                                     gameTime={gameState.gameTime}
                                                     destinationName={destName}
+                                                    issuerStanding={getTierProfile(gameState, c.faction)}
                                                 />
                                             );
                                         })
@@ -813,7 +1093,7 @@ export default function App() {
                 </div>
 
                 {/* 2. Ship Status Footer */}
-                <div className="h-32 border-t-2 border-amber-900/50 p-4 bg-black/20">
+                <div className="h-44 border-t-2 border-amber-900/50 p-4 bg-black/20">
                     <div className="flex justify-between items-center mb-2">
                         <span className="text-xs font-mono text-amber-700 uppercase">Hull Integrity</span>
                         <span className={`text-xs font-mono font-bold ${gameState.hull < 30 ? "text-red-500 crt-flicker" : "text-amber-500"}`}>{Math.round(gameState.hull)}%</span>
@@ -825,15 +1105,33 @@ export default function App() {
                         ></div>
                     </div>
                     
-                    {gameState.activeContract && (
-                        <div className="bg-amber-900/20 p-2 border border-amber-900/30 flex items-center gap-2">
-                            <TriangleAlert size={14} className="text-amber-500" />
-                            <div className="overflow-hidden">
-                                <p className="text-[10px] text-amber-300 font-bold truncate">{gameState.activeContract.title}</p>
-                                <p className="text-[10px] text-amber-500/60 truncate">Dest: {LOCATIONS.find(l=>l.id === gameState.activeContract?.destinationId)?.name}</p>
+                    <div className="flex justify-between items-center mb-1">
+                        <span className="text-xs font-mono text-amber-700 uppercase">Cargo Hold</span>
+                        <span className="text-xs font-mono text-amber-500">{getCargoUsed(gameState)} / {gameState.ship.cargoCapacity} U</span>
+                    </div>
+                    <div className="max-h-14 overflow-y-auto custom-scrollbar space-y-1">
+                        {gameState.activeContracts.map(c => (
+                            <div key={c.id} className="bg-amber-900/20 p-1 px-2 border border-amber-900/30 flex items-center gap-2">
+                                <TriangleAlert size={12} className="text-amber-500 shrink-0" />
+                                <p className="text-[10px] text-amber-300 font-bold truncate flex-1">{c.title}</p>
+                                <p className="text-[10px] text-amber-500/60 truncate">{LOCATIONS.find(l => l.id === c.destinationId)?.name} // {c.cargoSize}U</p>
+                                <button 
+                                    onClick={() => { playClick(); dispatch({ type: 'ABANDON_CONTRACT', contractId: c.id }); }}
+                                    onMouseEnter={playHover}
+                                    title="Abandon contract (fee + reputation loss)"
+                                    className="text-red-700 hover:text-red-400 shrink-0"
+                                >
+                                    <X size={12} />
+                                </button>
                             </div>
-                        </div>
-                    )}
+                        ))}
+                        {COMMODITIES.filter(g => (gameState.cargoGoods[g.id] ?? 0) > 0).map(g => (
+                            <div key={g.id} className="bg-cyan-900/10 p-1 px-2 border border-cyan-900/30 flex items-center justify-between gap-2">
+                                <p className="text-[10px] text-cyan-300 font-bold truncate">{g.name}</p>
+                                <p className="text-[10px] text-cyan-500/60">{gameState.cargoGoods[g.id]}U</p>
+                            </div>
+                        ))}
+                    </div>
                 </div>
             </div>
         </div>
@@ -0,0 +1,63 @@
+import { GameState, RunStats } from './types';
+import { createRunStats, mergeStats } from './engine/stats';
+
+// Lifetime record across runs, kept apart from the save slots so that
+// deleting or overwriting a save never loses it
+const STORAGE_KEY = 'lunar-runner-47:career';
+
+export interface CareerRecord {
+  runs: number; // Runs that have ended
+  totals: RunStats; // Summed over ended runs
+  bestCredits: number;
+  achievements: Record<string, number>; // Id -> wall-clock ms first earned
+  recordedRuns: string[]; // Latest run ids counted, so a run reloaded and ended again isn't
+}
+
+// Latest runs remembered. A save slot still holding a run older than this
+// is rare enough to risk counting twice.
+const RECORDED_RUNS_KEPT = 50;
+
+const createCareer = (): CareerRecord => ({ runs: 0, totals: createRunStats(), bestCredits: 0, achievements: {}, recordedRuns: [] });
+
+export const readCareer = (): CareerRecord => {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    return json ? { ...createCareer(), ...JSON.parse(json) } : createCareer();
+  } catch (e) {
+    console.warn("Career read failed:", e);
+    return createCareer();
+  }
+};
+
+const writeCareer = (career: CareerRecord): CareerRecord => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(career));
+  } catch (e) {
+    console.warn("Career write failed:", e);
+  }
+  return career;
+};
+
+// Note any achievements the run has earned that the career hasn't seen
+export const recordAchievements = (state: GameState): CareerRecord => {
+  const career = readCareer();
+  const fresh = state.achievements.filter(id => !(id in career.achievements));
+  if (fresh.length === 0) return career;
+
+  const now = Date.now();
+  const achievements = { ...career.achievements, ...Object.fromEntries(fresh.map(id => [id, now])) };
+  return writeCareer({ ...career, achievements });
+};
+
+// Fold a finished run into the lifetime totals, once
+export const recordRun = (state: GameState): CareerRecord => {
+  const career = recordAchievements(state);
+  if (career.recordedRuns.includes(state.runId)) return career;
+  return writeCareer({
+    ...career,
+    recordedRuns: [...career.recordedRuns, state.runId].slice(-RECORDED_RUNS_KEPT),
+    runs: career.runs + 1,
+    totals: mergeStats(career.totals, state.stats),
+    bestCredits: Math.max(career.bestCredits, state.credits)
+  });
+};
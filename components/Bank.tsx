@@ -0,0 +1,89 @@
+import React from 'react';
+import { DebtCollection, Loan } from '../types';
+import { LoanOffer } from '../engine/bank';
+import { Landmark } from 'lucide-react';
+
+interface BankProps {
+  offer: LoanOffer;
+  loan: Loan | undefined;
+  credits: number;
+  savings: number;
+  onBorrow: (amount: number) => void;
+  onRepay: (amount: number) => void;
+  onDeposit: (amount: number) => void;
+  onWithdraw: (amount: number) => void;
+  onHover?: () => void;
+}
+
+const DEPOSIT_LOT = 100;
+
+const PENALTIES: Record<DebtCollection, string> = {
+  reputation: "MISSED PAYMENTS COST STANDING",
+  seizure: "MISSED PAYMENTS: BAILIFFS SEIZE ASSETS",
+  collectors: "MISSED PAYMENTS: COLLECTORS SENT"
+};
+
+const Bank: React.FC<BankProps> = ({ offer, loan, credits, savings, onBorrow, onRepay, onDeposit, onWithdraw, onHover }) => {
+  const { bank } = offer;
+  const btn = "border px-1.5 py-0.5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+  const amber = `${btn} border-amber-700 text-amber-500 hover:bg-amber-500 hover:text-black`;
+  const cyan = `${btn} border-cyan-800 text-cyan-400 hover:bg-cyan-500 hover:text-black`;
+  const due = loan ? Math.min(loan.balance, loan.instalment + loan.arrears) : 0;
+  const amounts = [offer.limit / 4, offer.limit / 2, offer.limit].map(a => Math.floor(a));
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-700 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase">
+          <Landmark size={14} />
+          <span>Bank</span>
+        </div>
+        <div className="text-[10px] font-mono text-amber-700 uppercase">{bank.name}</div>
+      </div>
+
+      <div className="text-[10px] font-mono space-y-1" onMouseEnter={onHover}>
+        <p className="text-zinc-500">
+          {(offer.rate * 100).toFixed(1)}%/DAY{bank.rateSwing ? ' VARIABLE' : ''} // PAY EVERY {bank.paymentInterval}D // {PENALTIES[bank.collection]}
+        </p>
+
+        {loan ? (
+          <div className="flex items-center justify-between gap-2 border-t border-zinc-800 pt-1">
+            <div>
+              <p className="text-amber-500 font-bold">OWED {loan.balance} CR</p>
+              <p className="text-zinc-500">
+                {loan.instalment} CR DUE DAY {loan.nextDue}
+                {loan.arrears > 0 && <span className="text-red-500 font-bold"> // ARREARS {loan.arrears}</span>}
+              </p>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <button onClick={() => onRepay(due)} disabled={credits < due} className={amber}>PAY {due}</button>
+              <button onClick={() => onRepay(loan.balance)} disabled={credits < loan.balance} className={amber}>CLEAR</button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-2 border-t border-zinc-800 pt-1">
+            <span className={offer.refusal ? "text-red-500" : "text-amber-500"}>{offer.refusal ?? 'LOANS AVAILABLE'}</span>
+            {!offer.refusal && (
+              <div className="flex gap-1 shrink-0">
+                {amounts.map(a => (
+                  <button key={a} onClick={() => onBorrow(a)} className={amber}>+{a}</button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 border-t border-zinc-800 pt-1">
+          <span className="text-cyan-400">SAVINGS {savings} CR</span>
+          <div className="flex gap-1 shrink-0">
+            <button onClick={() => onDeposit(DEPOSIT_LOT)} disabled={credits < DEPOSIT_LOT} className={cyan}>DEP {DEPOSIT_LOT}</button>
+            <button onClick={() => onDeposit(credits)} disabled={credits <= 0} className={cyan}>DEP ALL</button>
+            <button onClick={() => onWithdraw(savings)} disabled={savings <= 0} className={cyan}>DRAW ALL</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Bank;
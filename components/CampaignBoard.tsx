@@ -0,0 +1,73 @@
+import React from 'react';
+import { Campaign, CampaignProgress, Location } from '../types';
+import { MissionOffer, getStep } from '../engine/campaigns';
+import { Flag } from 'lucide-react';
+
+interface CampaignBoardProps {
+  campaigns: Campaign[];
+  progress: Record<string, CampaignProgress>;
+  offers: MissionOffer[]; // Steps on offer at this station
+  locations: Location[];
+  onBrief: (offer: MissionOffer) => void;
+  onHover?: () => void;
+}
+
+const CampaignBoard: React.FC<CampaignBoardProps> = ({ campaigns, progress, offers, locations, onBrief, onHover }) => (
+  <div className="bg-zinc-900/50 border border-zinc-700 p-3">
+    <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase mb-2">
+      <Flag size={14} />
+      <span>Campaigns</span>
+    </div>
+
+    <div className="space-y-1 text-[10px] font-mono">
+      {campaigns.map(campaign => {
+        const { stepId, status } = progress[campaign.id];
+        const step = getStep(campaign, stepId);
+        const stepNo = campaign.steps.findIndex(s => s.id === stepId) + 1;
+        const offer = offers.find(o => o.campaign.id === campaign.id);
+        const giver = locations.find(l => l.id === campaign.giverId)?.name.toUpperCase();
+
+        let detail: React.ReactNode;
+        switch (status) {
+          case 'offered':
+            detail = offer?.locked
+              ? <span className="text-red-400">NEEDS REP {step?.minRep}</span>
+              : <span className="text-zinc-500">AT {giver}</span>;
+            break;
+          case 'active':
+            detail = <span className="text-cyan-400">UNDER WAY</span>;
+            break;
+          case 'debrief':
+            detail = <span className="text-amber-300">DEBRIEF</span>;
+            break;
+          case 'complete':
+            detail = <span className="text-green-500">COMPLETE</span>;
+            break;
+          case 'failed':
+            detail = <span className="text-red-500">FAILED</span>;
+            break;
+        }
+
+        return (
+          <div key={campaign.id} className="flex items-center justify-between gap-2 border-t border-zinc-800 pt-1">
+            <div className="min-w-0">
+              <p className="text-amber-500 uppercase font-bold truncate">{campaign.name}</p>
+              <p className="text-zinc-500 truncate">{stepNo}/{campaign.steps.length} // {step?.title.toUpperCase()} // {detail}</p>
+            </div>
+            {offer && !offer.locked && (
+              <button
+                onClick={() => onBrief(offer)}
+                onMouseEnter={onHover}
+                className="shrink-0 bg-amber-900/30 border border-amber-500 text-amber-500 px-2 py-1 hover:bg-amber-500 hover:text-black transition-colors"
+              >
+                BRIEFING
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default CampaignBoard;
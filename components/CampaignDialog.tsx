@@ -0,0 +1,78 @@
+import React from 'react';
+import { Campaign, Location, MissionBranch, MissionStep } from '../types';
+import { getStep } from '../engine/campaigns';
+import { MessageSquare } from 'lucide-react';
+
+interface CampaignDialogProps {
+  campaign: Campaign;
+  step: MissionStep;
+  mode: 'briefing' | 'debrief';
+  locations: Location[];
+  holdSpace: number;
+  onAccept?: () => void; // Briefings
+  onDecline?: () => void;
+  onChoose?: (index: number) => void; // Debriefs
+  onHover?: () => void;
+}
+
+// Short effect summary, e.g. "+150 CR // X-33 -5 // NEXT: PATROL MANIFEST"
+const describeBranch = (campaign: Campaign, b: MissionBranch) => {
+  const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+  const parts: string[] = [];
+  if (b.credits) parts.push(`${signed(b.credits)} CR`);
+  Object.entries(b.reputation ?? {}).forEach(([faction, delta]) => {
+    if (delta) parts.push(`${faction.split(' ')[0]} ${signed(delta)}`);
+  });
+  const next = getStep(campaign, b.next);
+  parts.push(next ? `NEXT: ${next.title.toUpperCase()}` : 'ENDS CAMPAIGN');
+  return parts.join(' // ');
+};
+
+const CampaignDialog: React.FC<CampaignDialogProps> = ({ campaign, step, mode, locations, holdSpace, onAccept, onDecline, onChoose, onHover }) => {
+  const dest = locations.find(l => l.id === step.objective.destinationId);
+  const fits = step.objective.cargo <= holdSpace;
+  const option = "w-full text-left border border-amber-700 p-2 hover:bg-amber-500 hover:text-black text-amber-500 transition-colors group disabled:opacity-30 disabled:cursor-not-allowed";
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black/60 flex items-center justify-center p-8">
+      <div className="w-full max-w-md bg-zinc-950 border-2 border-amber-500/70 p-5 shadow-[0_0_30px_rgba(245,158,11,0.2)]">
+        <div className="flex items-center gap-2 text-amber-500 font-display uppercase tracking-widest mb-1">
+          <MessageSquare size={18} />
+          <span>{step.title}</span>
+        </div>
+        <p className="text-[10px] font-mono text-zinc-500 uppercase mb-3">
+          {campaign.name} // {campaign.faction} // {mode === 'briefing' ? 'incoming transmission' : 'debrief'}
+        </p>
+        <p className="text-sm font-mono text-amber-100/80 mb-4">{mode === 'briefing' ? step.briefing : step.debrief}</p>
+
+        {mode === 'briefing' ? (
+          <div className="space-y-2">
+            <p className="text-[10px] font-mono text-zinc-400 uppercase">
+              {dest?.name} // {step.objective.cargo} U // {step.objective.days} DAY{step.objective.days === 1 ? '' : 'S'} // {step.objective.risk} RISK
+              {step.objective.contraband && <span className="text-red-400"> // CONTRABAND</span>} // {step.pay} CR
+            </p>
+            <button onClick={onAccept} onMouseEnter={onHover} disabled={!fits} className={option}>
+              <p className="font-bold text-xs uppercase">Take the job</p>
+              <p className="text-[10px] font-mono text-zinc-500 group-hover:text-black/70">{fits ? 'Cargo goes in the hold now' : 'Not enough hold space'}</p>
+            </button>
+            <button onClick={onDecline} onMouseEnter={onHover} className={option}>
+              <p className="font-bold text-xs uppercase">Not yet</p>
+              <p className="text-[10px] font-mono text-zinc-500 group-hover:text-black/70">The offer stands</p>
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {step.branches.map((b, i) => (
+              <button key={i} onClick={() => onChoose?.(i)} onMouseEnter={onHover} className={option}>
+                <p className="font-bold text-xs uppercase">{b.label}</p>
+                <p className="text-[10px] font-mono text-zinc-500 group-hover:text-black/70">{describeBranch(campaign, b)}</p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignDialog;
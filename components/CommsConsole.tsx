@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { LogCategory, LogEntry, LogSeverity } from '../types';
+import { getPinnedLogs, getRecentLogs } from '../engine/log';
+import { formatClock } from '../engine/calendar';
+import { ChevronDown, ChevronUp, Radio, Search, TriangleAlert } from 'lucide-react';
+
+interface CommsConsoleProps {
+  logs: LogEntry[];
+  onAcknowledge: (id?: number) => void; // No id acknowledges every pin
+  onHover?: () => void;
+}
+
+export const SEVERITY_COLORS: Record<LogSeverity, string> = {
+  info: 'text-amber-500/80',
+  warning: 'text-orange-400',
+  critical: 'text-red-500'
+};
+
+const CATEGORIES: LogCategory[] = ['nav', 'trade', 'combat', 'system'];
+
+// Lowest severity shown by each filter setting
+const SEVERITY_FLOORS: { label: string; severities: LogSeverity[] }[] = [
+  { label: 'ALL', severities: ['info', 'warning', 'critical'] },
+  { label: 'WARN+', severities: ['warning', 'critical'] },
+  { label: 'CRIT', severities: ['critical'] }
+];
+
+const CommsConsole: React.FC<CommsConsoleProps> = ({ logs, onAcknowledge, onHover }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [categories, setCategories] = useState<LogCategory[]>(CATEGORIES);
+  const [floor, setFloor] = useState(0);
+  const [query, setQuery] = useState('');
+
+  const pinned = getPinnedLogs(logs);
+  const needle = query.trim().toUpperCase();
+  const history = expanded
+    ? logs.filter(l => categories.includes(l.category)
+        && SEVERITY_FLOORS[floor].severities.includes(l.severity)
+        && (!needle || l.text.toUpperCase().includes(needle))).reverse()
+    : [];
+
+  const toggleCategory = (c: LogCategory) => {
+    setCategories(categories.includes(c) ? categories.filter(x => x !== c) : [...categories, c]);
+  };
+  const chip = (on: boolean) => `px-2 py-0.5 border uppercase transition-colors ${on ? 'bg-amber-500 text-black border-amber-500' : 'border-amber-900 text-amber-700 hover:text-amber-500'}`;
+
+  return (
+    <>
+      {/* PINNED - critical traffic waits here until acknowledged */}
+      {pinned.length > 0 && !expanded && (
+        <div className="absolute bottom-32 left-4 right-4 z-20 flex flex-col gap-1 font-mono text-xs" onMouseEnter={onHover}>
+          {pinned.slice(0, 3).map(l => (
+            <div key={l.id} className="bg-red-950/80 border border-red-500 px-2 py-1 flex items-center gap-2 text-red-400 shadow-lg">
+              <TriangleAlert size={14} className="shrink-0 animate-pulse" />
+              <span className="text-red-700 shrink-0">{formatClock(l.t)}</span>
+              <span className="flex-1 truncate">{l.text}</span>
+              <button onClick={() => onAcknowledge(l.id)} className="shrink-0 border border-red-500 px-2 hover:bg-red-500 hover:text-black">ACK</button>
+            </div>
+          ))}
+          {pinned.length > 1 && (
+            <button onClick={() => onAcknowledge()} className="self-end border border-red-900 bg-black/60 text-red-500 px-2 hover:border-red-500">
+              ACK ALL ({pinned.length})
+            </button>
+          )}
+        </div>
+      )}
+
+      {expanded ? (
+        <div className="absolute top-4 bottom-4 left-4 right-4 z-30 bg-zinc-950/95 border border-amber-900 p-3 font-mono text-xs flex flex-col shadow-lg">
+          <div className="flex items-center justify-between border-b border-amber-900/50 pb-2 mb-2">
+            <div className="flex items-center gap-2 text-amber-500 font-bold uppercase">
+              <Radio size={14} />
+              <span>Comms Log</span>
+              <span className="text-amber-700 font-normal">{history.length} / {logs.length}</span>
+            </div>
+            <button onClick={() => setExpanded(false)} onMouseEnter={onHover} className="text-amber-700 hover:text-amber-500" title="Collapse">
+              <ChevronDown size={16} />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-[10px]" onMouseEnter={onHover}>
+            {CATEGORIES.map(c => (
+              <button key={c} onClick={() => toggleCategory(c)} className={chip(categories.includes(c))}>{c}</button>
+            ))}
+            <span className="text-amber-900">|</span>
+            {SEVERITY_FLOORS.map((s, i) => (
+              <button key={s.label} onClick={() => setFloor(i)} className={chip(floor === i)}>{s.label}</button>
+            ))}
+            <div className="flex-1 min-w-[8rem] flex items-center gap-1 border border-amber-900 px-2 py-0.5 text-amber-500">
+              <Search size={12} />
+              <input
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="SEARCH"
+                className="flex-1 bg-transparent outline-none placeholder-amber-900 uppercase"
+              />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar space-y-0.5">
+            {history.length === 0 && <p className="text-zinc-600">NO MATCHING TRAFFIC.</p>}
+            {history.map(l => (
+              <p key={l.id} className={`flex gap-2 ${SEVERITY_COLORS[l.severity]}`}>
+                <span className="text-zinc-600 shrink-0">{formatClock(l.t)}</span>
+                <span className="text-zinc-500 shrink-0 w-12 uppercase">{l.category}</span>
+                <span className="flex-1">{l.text}</span>
+                {l.severity === 'critical' && !l.acked && (
+                  <button onClick={() => onAcknowledge(l.id)} className="shrink-0 text-red-500 hover:text-red-300">ACK</button>
+                )}
+              </p>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="absolute bottom-4 left-4 right-4 h-24 pointer-events-none">
+          <div className="w-full h-full bg-black/40 backdrop-blur-sm border-t border-amber-900/30 p-2 font-mono text-xs flex flex-col justify-end">
+            {getRecentLogs(logs).map(l => (
+              <p key={l.id} className={`opacity-80 drop-shadow-md truncate ${SEVERITY_COLORS[l.severity]}`}>{'>'} {l.text}</p>
+            ))}
+          </div>
+          <button
+            onClick={() => setExpanded(true)}
+            onMouseEnter={onHover}
+            className="absolute top-1 right-2 pointer-events-auto text-amber-700 hover:text-amber-500 flex items-center gap-1 font-mono text-[10px]"
+            title="Expand comms log"
+          >
+            <ChevronUp size={14} />
+            COMMS
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CommsConsole;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { ContentPack } from '../types';
+import { PackStore } from '../packs';
+import { Package, Trash2, Upload, X } from 'lucide-react';
+
+interface ContentPackMenuProps {
+  store: PackStore;
+  errors: string[]; // From the last import, if it failed
+  onToggle: (id: string, enabled: boolean) => void;
+  onRemove: (id: string) => void;
+  onImport: (file: File | undefined) => void;
+  onClose: () => void;
+}
+
+// e.g. "1 FACTION // 0 SYSTEMS // 2 LOCATIONS // 3 JOBS // 1 SERVICE"
+const describePack = (pack: ContentPack) => {
+  const count = (n: number, what: string) => `${n} ${what}${n === 1 ? '' : 'S'}`;
+  const services = [pack.shipyards, pack.banks, pack.markets].reduce((n, table) => n + Object.keys(table ?? {}).length, 0);
+  return [
+    count(pack.factions?.length ?? 0, 'FACTION'),
+    count(pack.systems?.length ?? 0, 'SYSTEM'),
+    count(pack.locations?.length ?? 0, 'LOCATION'),
+    count(pack.contractTemplates?.length ?? 0, 'JOB'),
+    count(services, 'SERVICE')
+  ].join(' // ');
+};
+
+const ContentPackMenu: React.FC<ContentPackMenuProps> = ({ store, errors, onToggle, onRemove, onImport, onClose }) => (
+  <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-8">
+    <div className="w-full max-w-xl bg-zinc-950 border-2 border-amber-900 p-5 shadow-lg text-left">
+      <div className="flex items-center justify-between border-b border-amber-900/50 pb-2 mb-4">
+        <h3 className="font-display text-amber-500 font-bold tracking-widest flex items-center gap-2">
+          <Package size={16} />
+          CONTENT PACKS
+        </h3>
+        <button onClick={onClose} className="text-amber-700 hover:text-amber-500">
+          <X size={16} />
+        </button>
+      </div>
+
+      <p className="font-mono text-[10px] text-zinc-500 uppercase mb-3">
+        Enabled packs layer over the base set in the order shown and load when a new run starts. Saves and replays bring back the packs they were played with.
+      </p>
+
+      <div className="space-y-2 font-mono text-xs mb-4">
+        {store.packs.length === 0 && <p className="text-zinc-600">NO PACKS INSTALLED.</p>}
+        {store.packs.map(pack => {
+          const enabled = store.enabled.includes(pack.id);
+          return (
+            <div key={pack.id} className={`border p-2 flex items-center gap-3 ${enabled ? 'border-amber-500' : 'border-zinc-800'}`}>
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => onToggle(pack.id, e.target.checked)}
+                className="accent-amber-500 shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-amber-500 font-bold uppercase truncate">{pack.name} <span className="text-amber-900 font-normal">{pack.id}</span></p>
+                {pack.description && <p className="text-zinc-400 text-[10px] truncate">{pack.description}</p>}
+                <p className="text-zinc-600 text-[10px]">{describePack(pack)}</p>
+              </div>
+              <button onClick={() => onRemove(pack.id)} className="shrink-0 text-amber-900 hover:text-red-500" title="Uninstall">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <label className="inline-flex items-center gap-2 px-4 py-2 border border-amber-900 text-amber-700 hover:text-amber-500 hover:border-amber-500 uppercase tracking-widest cursor-pointer font-mono text-sm">
+        <Upload size={14} />
+        Install Pack
+        {/* Reset so picking the same file again after fixing it re-imports */}
+        <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { onImport(e.target.files?.[0]); e.target.value = ''; }} />
+      </label>
+
+      {errors.length > 0 && (
+        <div className="mt-3 border border-red-900 bg-red-950/30 p-2 font-mono text-[10px] text-red-400 max-h-40 overflow-y-auto">
+          <p className="font-bold mb-1">PACK REJECTED:</p>
+          {errors.map((e, i) => <p key={i}>{e}</p>)}
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default ContentPackMenu;
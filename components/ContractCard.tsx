@@ -1,27 +1,32 @@
 import React from 'react';
-import { Contract, Faction } from '../types';
-import { BadgeDollarSign, Fuel, MapPin, Clock, ArrowRight } from 'lucide-react';
+import { Contract, RepTierProfile } from '../types';
+import RepBadge from './RepBadge';
+import { BadgeDollarSign, Fuel, MapPin, Clock, ArrowRight, Package } from 'lucide-react';
 
 interface ContractCardProps {
   contract: Contract;
   onAccept: (c: Contract) => void;
   canAffordFuel: boolean;
+  holdSpace: number; // Free cargo units aboard
   currentDistance: number;
   currentFuelCost: number;
   onHover?: () => void;
   gameTime: number;
   destinationName: string;
+  issuerStanding: RepTierProfile; // How the issuing faction rates us
 }
 
 const ContractCard: React.FC<ContractCardProps> = ({ 
   contract, 
   onAccept, 
   canAffordFuel, 
+  holdSpace,
   currentDistance, 
   currentFuelCost, 
   onHover, 
   gameTime,
-  destinationName
+  destinationName,
+  issuerStanding
 }) => {
   const timeLeft = Math.max(0, contract.expiresAt - gameTime);
   // Assuming 60 ticks per second roughly
@@ -29,6 +34,8 @@ const ContractCard: React.FC<ContractCardProps> = ({
   
   // < 15 seconds = Critical
   const isCritical = secondsLeft < 15;
+  const fitsInHold = contract.cargoSize <= holdSpace;
+  const canAccept = canAffordFuel && fitsInHold;
 
   return (
     <div 
@@ -50,6 +57,10 @@ const ContractCard: React.FC<ContractCardProps> = ({
             <span className={`text-[10px] px-1.5 rounded border ${contract.riskLevel === 'HIGH' ? 'border-red-500 text-red-500' : 'border-amber-900 text-amber-700'}`}>
             {contract.riskLevel} RISK
             </span>
+            <RepBadge profile={issuerStanding} />
+            {contract.secret && (
+              <span className="text-[10px] px-1.5 rounded border border-fuchsia-500 text-fuchsia-400">OFF THE BOOKS</span>
+            )}
         </div>
       </div>
       
@@ -80,18 +91,22 @@ const ContractCard: React.FC<ContractCardProps> = ({
           <ArrowRight size={12} />
           <span>{Math.round(currentDistance)} AU</span>
         </div>
+        <div className="flex items-center gap-1">
+          <Package size={12} />
+          <span className={fitsInHold ? "" : "text-red-500"}>{contract.cargoSize} / {holdSpace} U</span>
+        </div>
       </div>
 
       <button 
         onClick={() => onAccept(contract)}
-        disabled={!canAffordFuel}
+        disabled={!canAccept}
         className={`w-full py-2 text-xs font-bold tracking-widest uppercase border relative z-10
-          ${canAffordFuel 
+          ${canAccept 
             ? 'bg-amber-900/20 border-amber-500 text-amber-500 hover:bg-amber-500 hover:text-black' 
             : 'bg-red-900/10 border-red-900 text-red-900 cursor-not-allowed'}
           transition-all`}
       >
-        {canAffordFuel ? 'ACCEPT CONTRACT' : 'INSUFFICIENT FUEL'}
+        {!fitsInHold ? 'HOLD TOO SMALL' : canAffordFuel ? 'ACCEPT CONTRACT' : 'INSUFFICIENT FUEL'}
       </button>
     </div>
   );
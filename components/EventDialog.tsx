@@ -0,0 +1,64 @@
+import React from 'react';
+import { EventChoice, EventOutcome, Faction, FlightEvent } from '../types';
+import { TriangleAlert } from 'lucide-react';
+
+interface EventDialogProps {
+  event: FlightEvent;
+  faction: Faction;
+  credits: number;
+  onChoose: (index: number) => void;
+  onHover?: () => void;
+}
+
+// Short effect summary, e.g. "-5 HULL +80 CR"
+const describeOutcome = (o: EventOutcome) => {
+  const parts: string[] = [];
+  const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+  if (o.hull) parts.push(`${signed(o.hull)} HULL`);
+  if (o.fuel) parts.push(`${signed(o.fuel)} L`);
+  if (o.credits) parts.push(`${signed(o.credits)} CR`);
+  if (o.reputation) parts.push(`${signed(o.reputation)} REP`);
+  if (o.confiscate) parts.push('CONTRABAND SEIZED');
+  if (o.jettison) parts.push('CARGO DUMPED');
+  return parts.length > 0 ? parts.join(' ') : 'NO EFFECT';
+};
+
+const describeChoice = (c: EventChoice) => {
+  if (c.chance === undefined || !c.failure) return describeOutcome(c.success);
+  return `${Math.round(c.chance * 100)}%: ${describeOutcome(c.success)} // ELSE ${describeOutcome(c.failure)}`;
+};
+
+const EventDialog: React.FC<EventDialogProps> = ({ event, faction, credits, onChoose, onHover }) => (
+  <div className="absolute inset-0 z-40 bg-black/60 flex items-center justify-center p-8">
+    <div className="w-full max-w-md bg-zinc-950 border-2 border-red-500/70 p-5 shadow-[0_0_30px_rgba(239,68,68,0.2)]">
+      <div className="flex items-center gap-2 text-red-500 font-display uppercase tracking-widest mb-1">
+        <TriangleAlert size={18} />
+        <span>{event.title}</span>
+      </div>
+      <p className="text-[10px] font-mono text-zinc-500 uppercase mb-3">{faction} space // flight holding</p>
+      <p className="text-sm font-mono text-amber-100/80 mb-4">{event.text}</p>
+
+      <div className="space-y-2">
+        {event.choices.map((choice, i) => {
+          const affordable = !choice.cost || credits >= choice.cost;
+          return (
+            <button
+              key={i}
+              onClick={() => onChoose(i)}
+              onMouseEnter={onHover}
+              disabled={!affordable}
+              className="w-full text-left border border-amber-700 p-2 hover:bg-amber-500 hover:text-black text-amber-500 transition-colors group disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <p className="font-bold text-xs uppercase">
+                {choice.label}{choice.cost ? ` (${choice.cost} CR)` : ''}
+              </p>
+              <p className="text-[10px] font-mono text-zinc-500 group-hover:text-black/70">{describeChoice(choice)}</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
+
+export default EventDialog;
@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { Faction, Location, StarSystem } from '../types';
+import { getFactionPresence } from '../engine/gates';
+import { getFactionColor } from '../engine/content';
+
+interface GalaxyMapProps {
+  systems: StarSystem[];
+  locations: Location[];
+  shipSystemId: string;
+  viewedSystemId: string;
+  cargoSystems: string[]; // Systems with deliveries bound for them
+  onSelect: (systemId: string) => void;
+  onHover?: () => void;
+}
+
+const PADDING = 80; // Map units around the outermost systems
+const PRESENCE_WIDTH = 60;
+
+const GalaxyMap: React.FC<GalaxyMapProps> = ({ systems, locations, shipSystemId, viewedSystemId, cargoSystems, onSelect, onHover }) => {
+  const viewBox = useMemo(() => {
+    const xs = systems.map(s => s.coords.x);
+    const ys = systems.map(s => s.coords.y);
+    const x = Math.min(...xs) - PADDING;
+    const y = Math.min(...ys) - PADDING;
+    return `${x} ${y} ${Math.max(...xs) + PADDING - x} ${Math.max(...ys) + PADDING - y}`;
+  }, [systems]);
+
+  // One line per gate pair, labelled with the toll
+  const links = useMemo(() => {
+    const seen = new Set<string>();
+    return locations.flatMap(gate => {
+      const twin = gate.gate && locations.find(l => l.id === gate.gate!.to);
+      const from = systems.find(s => s.id === gate.system);
+      const to = twin && systems.find(s => s.id === twin.system);
+      const key = [gate.id, twin?.id].sort().join('|');
+      if (!gate.gate || !from || !to || seen.has(key)) return [];
+      seen.add(key);
+      return [{ key, from: from.coords, to: to.coords, toll: gate.gate.toll, fuel: gate.gate.fuel }];
+    });
+  }, [systems, locations]);
+
+  return (
+    <div className="relative w-full h-full border-2 border-amber-900/50 bg-slate-950 rounded-lg overflow-hidden shadow-[inset_0_0_20px_rgba(0,0,0,0.8)]">
+      <div className="absolute top-2 right-2 z-20 pointer-events-none opacity-30 text-[10px] text-amber-500 font-mono text-right">
+        CLICK: VIEW SYSTEM
+      </div>
+
+      <svg viewBox={viewBox} className="w-full h-full relative z-10" preserveAspectRatio="xMidYMid meet">
+        {/* Gate links */}
+        {links.map(link => (
+          <g key={link.key} pointerEvents="none">
+            <line x1={link.from.x} y1={link.from.y} x2={link.to.x} y2={link.to.y} stroke="#a1a1aa" strokeWidth="1" strokeDasharray="6 4" opacity="0.5" />
+            <text
+              x={(link.from.x + link.to.x) / 2}
+              y={(link.from.y + link.to.y) / 2 - 6}
+              textAnchor="middle"
+              fill="#a1a1aa"
+              fontSize="9"
+              className="font-mono"
+            >
+              {link.toll} CR // {link.fuel} L
+            </text>
+          </g>
+        ))}
+
+        {/* Systems */}
+        {systems.map(system => {
+          const { x, y } = system.coords;
+          const r = 8 + system.primary.radius / 4;
+          const presence = Object.entries(getFactionPresence(system.id)) as [Faction, number][];
+          let offset = 0;
+
+          return (
+            <g key={system.id} onClick={() => onSelect(system.id)} onMouseEnter={onHover} className="cursor-pointer hover:opacity-80">
+              <circle cx={x} cy={y} r={r + 16} fill="transparent" />
+              {cargoSystems.includes(system.id) && (
+                <circle cx={x} cy={y} r={r + 6} fill="none" stroke="#ef4444" strokeWidth="2" className="animate-pulse" />
+              )}
+              {system.id === viewedSystemId && (
+                <circle cx={x} cy={y} r={r + 11} fill="none" stroke="#fbbf24" strokeWidth="1" strokeDasharray="3 3" />
+              )}
+              <circle cx={x} cy={y} r={r} fill="#0f172a" stroke={system.primary.color} strokeWidth="2" />
+              {system.id === shipSystemId && (
+                <path d={`M ${x} ${y - r - 16} l 5 -10 l -10 0 z`} fill="#fbbf24" stroke="#78350f" strokeWidth="1" />
+              )}
+
+              <text x={x} y={y + r + 16} textAnchor="middle" fill={system.primary.color} fontSize="11" className="font-display tracking-widest">
+                {system.name.toUpperCase()}
+              </text>
+
+              {/* Who holds what here, by share of bodies */}
+              {presence.map(([faction, share]) => {
+                const width = share * PRESENCE_WIDTH;
+                const segment = (
+                  <rect key={faction} x={x - PRESENCE_WIDTH / 2 + offset} y={y + r + 22} width={width} height={4} fill={getFactionColor(faction)}>
+                    <title>{`${faction}: ${Math.round(share * 100)}%`}</title>
+                  </rect>
+                );
+                offset += width;
+                return segment;
+              })}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default GalaxyMap;
@@ -1,16 +1,21 @@
 import React, { useMemo, useState } from 'react';
-import { Coordinates, GameState, Location, LocationType, SCREEN_HEIGHT, SCREEN_WIDTH, CENTER } from '../types';
+import { Coordinates, FlightPlan, GameState, Location, LocationType, StarSystem, SCREEN_HEIGHT, SCREEN_WIDTH, CENTER, MAP_MAX_WIDTH, MAP_MIN_WIDTH } from '../types';
+import { getShipSystemId } from '../engine/gates';
 
 interface GameMapProps {
   gameState: GameState;
-  locations: Location[];
+  system: StarSystem; // The one on screen
+  locations: Location[]; // Just that system's
   onLocationClick: (loc: Location) => void;
   onHover?: (loc: Location | null) => void;
   shipPosition: Coordinates;
   shipRotation: number;
+  plannedCourses?: FlightPlan[]; // Previewed route legs while docked
 }
 
-const GameMap: React.FC<GameMapProps> = ({ gameState, locations, onLocationClick, onHover, shipPosition, shipRotation }) => {
+const RAIDER_ORBIT = 28; // Map units from our ship to the circling raiders
+
+const GameMap: React.FC<GameMapProps> = ({ gameState, system, locations, onLocationClick, onHover, shipPosition, shipRotation, plannedCourses = [] }) => {
   const [viewBox, setViewBox] = useState({ x: 0, y: 0, w: SCREEN_WIDTH, h: SCREEN_HEIGHT });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
@@ -24,6 +29,18 @@ const GameMap: React.FC<GameMapProps> = ({ gameState, locations, onLocationClick
     return Array.from(radii).sort((a,b) => a - b);
   }, [locations]);
 
+  // Every stop with cargo bound for it
+  const missionDestinations = useMemo(() => {
+    return Array.from(new Set<string>(gameState.activeContracts.map(c => c.destinationId)));
+  }, [gameState.activeContracts]);
+
+  // The locked course in flight, or the route being previewed while docked,
+  // as far as either runs through this system
+  const shipInView = getShipSystemId(gameState) === system.id;
+  const courses = (gameState.isFlying ? (gameState.flightPlan ? [gameState.flightPlan] : []) : plannedCourses)
+    .filter(course => locations.some(l => l.id === course.destinationId));
+  const { primary } = system;
+
   // Generate background stars
   const stars = useMemo(() => {
       const starCount = 500;
@@ -61,16 +78,13 @@ const GameMap: React.FC<GameMapProps> = ({ gameState, locations, onLocationClick
     let newH = curH * factor;
 
     // Constraints
-    const MIN_W = 200;
-    const MAX_W = 2500;
-
-    if (newW < MIN_W) {
-        newW = MIN_W;
-        newH = MIN_W * (SCREEN_HEIGHT / SCREEN_WIDTH);
+    if (newW < MAP_MIN_WIDTH) {
+        newW = MAP_MIN_WIDTH;
+        newH = MAP_MIN_WIDTH * (SCREEN_HEIGHT / SCREEN_WIDTH);
     }
-    if (newW > MAX_W) {
-        newW = MAX_W;
-        newH = MAX_W * (SCREEN_HEIGHT / SCREEN_WIDTH);
+    if (newW > MAP_MAX_WIDTH) {
+        newW = MAP_MAX_WIDTH;
+        newH = MAP_MAX_WIDTH * (SCREEN_HEIGHT / SCREEN_WIDTH);
     }
 
     const newX = curX + px * (curW - newW);
@@ -175,14 +189,17 @@ const GameMap: React.FC<GameMapProps> = ({ gameState, locations, onLocationClick
             />
         ))}
 
-        {/* Active Contract Mission Vector (Arrow) - Shown when docked with active contract */}
-        {gameState.activeContract && !gameState.isFlying && (
-          <g>
+        {/* Mission Vectors (Arrows) - One per contract destination, shown when docked with cargo aboard */}
+        {!gameState.isFlying && shipInView && missionDestinations.map(destId => {
+          const dest = locations.find(l => l.id === destId);
+          if (!dest) return null;
+          return (
             <line
+              key={`vector-${destId}`}
               x1={shipPosition.x}
               y1={shipPosition.y}
-              x2={locations.find(l => l.id === gameState.activeContract?.destinationId)?.coords.x ?? 0}
-              y2={locations.find(l => l.id === gameState.activeContract?.destinationId)?.coords.y ?? 0}
+              x2={dest.coords.x}
+              y2={dest.coords.y}
               stroke="#ef4444"
               strokeWidth="2"
               strokeDasharray="4 2"
@@ -190,31 +207,39 @@ const GameMap: React.FC<GameMapProps> = ({ gameState, locations, onLocationClick
               className="animate-pulse"
               opacity="0.8"
             />
-          </g>
-        )}
+          );
+        })}
 
-        {/* Flight Path Line (Dynamic Target) - Shown when flying */}
-        {gameState.isFlying && gameState.flightOriginId && gameState.flightDestinationId && (
-          <line 
-            x1={shipPosition.x}
-            y1={shipPosition.y}
-            x2={locations.find(l => l.id === gameState.flightDestinationId)?.coords.x ?? 0}
-            y2={locations.find(l => l.id === gameState.flightDestinationId)?.coords.y ?? 0}
-            stroke="#ef4444"
-            strokeWidth="1"
-            strokeDasharray="2 2"
-            opacity="0.4"
-          />
-        )}
+        {/* Intercept Courses - the locked leg in flight, or the previewed route while docked */}
+        {courses.map((course, i) => {
+          const courseColor = locations.find(l => l.id === course.destinationId)?.color || "#fbbf24";
+          return (
+            <g key={`course-${i}`} pointerEvents="none">
+              <line
+                x1={course.from.x}
+                y1={course.from.y}
+                x2={course.to.x}
+                y2={course.to.y}
+                stroke="#ef4444"
+                strokeWidth="1"
+                strokeDasharray="2 2"
+                opacity={gameState.isFlying ? 0.6 : 0.4}
+              />
+              {/* Ghost of the destination where we'll meet it */}
+              <circle cx={course.to.x} cy={course.to.y} r={8} fill="none" stroke={courseColor} strokeWidth="1" strokeDasharray="2 2" opacity="0.6" />
+              <circle cx={course.to.x} cy={course.to.y} r={2} fill={courseColor} opacity="0.6" />
+            </g>
+          );
+        })}
 
         {/* Central Planet */}
-        <circle cx={CENTER.x} cy={CENTER.y} r={40} fill="#0f172a" stroke="#3b82f6" strokeWidth="2" />
-        <text x={CENTER.x} y={CENTER.y + 5} textAnchor="middle" fill="#3b82f6" fontSize="10" className="font-display tracking-widest opacity-50">TERRA-NV</text>
+        <circle cx={CENTER.x} cy={CENTER.y} r={primary.radius} fill="#0f172a" stroke={primary.color} strokeWidth="2" />
+        <text x={CENTER.x} y={CENTER.y + 5} textAnchor="middle" fill={primary.color} fontSize="10" className="font-display tracking-widest opacity-50">{primary.name}</text>
 
         {/* Locations */}
         {locations.map(loc => {
           const isCurrent = loc.id === gameState.currentLocationId && !gameState.isFlying;
-          const isDest = loc.id === gameState.activeContract?.destinationId;
+          const isDest = missionDestinations.includes(loc.id);
           const locColor = loc.color || "#fbbf24";
 
           return (
@@ -243,6 +268,12 @@ const GameMap: React.FC<GameMapProps> = ({ gameState, locations, onLocationClick
                   strokeWidth={isDest ? 3 : 2}
                   transform={`rotate(45 ${loc.coords.x} ${loc.coords.y})`}
                 />
+              ) : loc.type === LocationType.GATE ? (
+                // Gates: a broken ring
+                <g>
+                  <circle cx={loc.coords.x} cy={loc.coords.y} r={10} fill="none" stroke={isDest ? "#ef4444" : locColor} strokeWidth={isDest ? 3 : 2} strokeDasharray="12 4" />
+                  <circle cx={loc.coords.x} cy={loc.coords.y} r={4} fill={isCurrent ? locColor : "#1e293b"} stroke={locColor} strokeWidth="1" />
+                </g>
               ) : (
                 <circle 
                   cx={loc.coords.x} 
@@ -275,10 +306,27 @@ const GameMap: React.FC<GameMapProps> = ({ gameState, locations, onLocationClick
         })}
 
         {/* The Ship */}
-        <g transform={`translate(${shipPosition.x}, ${shipPosition.y}) rotate(${shipRotation})`}>
-          <path d="M 0 -10 L 8 10 L 0 6 L -8 10 Z" fill="#fbbf24" stroke="#78350f" strokeWidth="1" />
-          <path d="M 0 6 L 0 14" stroke="#ef4444" strokeWidth="2" className={gameState.isFlying ? "opacity-100" : "opacity-0"} />
-        </g>
+        {shipInView && (
+          <g transform={`translate(${shipPosition.x}, ${shipPosition.y}) rotate(${shipRotation})`}>
+            <path d="M 0 -10 L 8 10 L 0 6 L -8 10 Z" fill="#fbbf24" stroke="#78350f" strokeWidth="1" />
+            <path d="M 0 6 L 0 14" stroke="#ef4444" strokeWidth="2" className={gameState.isFlying ? "opacity-100" : "opacity-0"} />
+          </g>
+        )}
+
+        {/* Raiders - circling the ship while the encounter lasts */}
+        {gameState.encounter && shipInView && (
+          <g transform={`translate(${shipPosition.x}, ${shipPosition.y})`} pointerEvents="none">
+            <circle r={RAIDER_ORBIT} fill="none" stroke="#ef4444" strokeWidth="1" strokeDasharray="2 4" opacity="0.4" />
+            <g>
+              <animateTransform attributeName="transform" type="rotate" from="0" to="360" dur="6s" repeatCount="indefinite" />
+              {gameState.encounter.bearings.map((bearing, i) => (
+                <g key={i} transform={`rotate(${bearing}) translate(${RAIDER_ORBIT}, 0) rotate(180)`}>
+                  <path d="M 0 -6 L 5 6 L 0 3 L -5 6 Z" fill="#ef4444" stroke="#7f1d1d" strokeWidth="1" />
+                </g>
+              ))}
+            </g>
+          </g>
+        )}
       </svg>
     </div>
   );
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Contract, HullCover } from '../types';
+import { ShieldCheck } from 'lucide-react';
+
+interface CargoQuote {
+  contract: Contract;
+  premium: number | null; // null when the underwriter won't touch it
+}
+
+interface InsuranceProps {
+  hullCover: HullCover | null; // Only while still in force
+  hullPremium: number;
+  cargo: CargoQuote[];
+  recentDamage: number;
+  credits: number;
+  onBuyHull: () => void;
+  onInsureCargo: (contract: Contract) => void;
+  onHover?: () => void;
+}
+
+const Insurance: React.FC<InsuranceProps> = ({ hullCover, hullPremium, cargo, recentDamage, credits, onBuyHull, onInsureCargo, onHover }) => {
+  const btn = "shrink-0 bg-amber-900/30 border border-amber-500 text-amber-500 px-2 py-1 hover:bg-amber-500 hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-700 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase">
+          <ShieldCheck size={14} />
+          <span>Underwriter</span>
+        </div>
+        <div className={`text-[10px] font-mono ${recentDamage > 0 ? 'text-red-400' : 'text-amber-700'}`}>DAMAGE 7D: {recentDamage} HP</div>
+      </div>
+
+      <div className="space-y-1 text-[10px] font-mono" onMouseEnter={onHover}>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-amber-500 uppercase font-bold">Hull Cover</p>
+            <p className="text-zinc-500">
+              {hullCover ? `IN FORCE TO DAY ${hullCover.expiresDay} // ${hullCover.deductible} CR EXCESS` : 'REPAIRS PAID ABOVE THE EXCESS'}
+            </p>
+          </div>
+          {hullCover ? (
+            <span className="shrink-0 text-green-500">COVERED</span>
+          ) : (
+            <button onClick={onBuyHull} disabled={credits < hullPremium} className={btn}>{hullPremium} CR</button>
+          )}
+        </div>
+
+        {cargo.map(({ contract, premium }) => (
+          <div key={contract.id} className="flex items-center justify-between gap-2 border-t border-zinc-800 pt-1">
+            <div className="min-w-0">
+              <p className="text-amber-500 uppercase font-bold truncate">{contract.title}</p>
+              <p className="text-zinc-500">{contract.riskLevel} RISK // PAYS {contract.pay} CR IF RAIDED</p>
+            </div>
+            {contract.insured ? (
+              <span className="shrink-0 text-green-500">INSURED</span>
+            ) : premium === null ? (
+              <span className="shrink-0 text-red-500">UNINSURABLE</span>
+            ) : (
+              <button onClick={() => onInsureCargo(contract)} disabled={credits < premium} className={btn}>{premium} CR</button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Insurance;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { FlightPlan } from '../types';
+import { Clock } from 'lucide-react';
+
+interface LaunchForecastProps {
+  samples: FlightPlan[];
+  windows: FlightPlan[]; // Cheapest first
+  gameTime: number;
+  fuel: number;
+  dockingFees: (until: number) => number;
+  onWait: (until: number) => void;
+  onHover?: () => void;
+}
+
+const CHART_W = 300;
+const CHART_H = 60;
+
+const LaunchForecast: React.FC<LaunchForecastProps> = ({ samples, windows, gameTime, fuel, dockingFees, onWait, onHover }) => {
+  if (samples.length < 2) return null;
+
+  const start = samples[0].departTime;
+  const span = samples[samples.length - 1].departTime - start || 1;
+  const costs = samples.map(s => s.fuel);
+  const lo = Math.min(...costs);
+  const hi = Math.max(...costs);
+  const range = hi - lo || 1;
+
+  const x = (t: number) => ((t - start) / span) * CHART_W;
+  const y = (f: number) => CHART_H - 4 - ((f - lo) / range) * (CHART_H - 8);
+  const points = samples.map(s => `${x(s.departTime).toFixed(1)},${y(s.fuel).toFixed(1)}`).join(' ');
+  const nowCost = samples[0].fuel;
+
+  return (
+    <div className="bg-black/20 p-3 border border-amber-900/30">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase">
+          <Clock size={14} />
+          <span>Launch Windows</span>
+        </div>
+        <div className="text-[10px] font-mono text-amber-700">{Math.ceil(lo)}-{Math.ceil(hi)} L</div>
+      </div>
+
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-16 bg-black/30 border border-zinc-800" preserveAspectRatio="none">
+        {/* What we can burn right now */}
+        {fuel >= lo && fuel <= hi && (
+          <line x1={0} y1={y(fuel)} x2={CHART_W} y2={y(fuel)} stroke="#06b6d4" strokeWidth="1" strokeDasharray="3 3" opacity="0.5" />
+        )}
+        <polyline points={points} fill="none" stroke="#f59e0b" strokeWidth="1.5" />
+        {windows.map((w, i) => (
+          <circle key={w.departTime} cx={x(w.departTime)} cy={y(w.fuel)} r={i === 0 ? 4 : 3} fill={i === 0 ? "#22c55e" : "#f59e0b"} />
+        ))}
+      </svg>
+
+      <div className="space-y-1 mt-2 text-[10px] font-mono">
+        {windows.map((w, i) => {
+          const wait = w.departTime - gameTime;
+          const fees = dockingFees(w.departTime);
+          return (
+            <div key={w.departTime} className="flex items-center justify-between gap-2">
+              <span className={i === 0 ? "text-green-500" : "text-amber-500"}>
+                T+{wait} // {Math.round(w.distance)} AU // {Math.ceil(w.fuel)} L
+                <span className="text-zinc-500"> ({Math.round(w.fuel - nowCost)} L VS NOW{fees > 0 ? `, ${fees} CR FEES` : ''})</span>
+              </span>
+              <button
+                onClick={() => onWait(w.departTime)}
+                onMouseEnter={onHover}
+                disabled={wait <= 0}
+                className="border border-amber-700 text-amber-500 px-1.5 py-0.5 hover:bg-amber-500 hover:text-black transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                {i === 0 ? 'WAIT (OPTIMAL)' : 'WAIT'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LaunchForecast;
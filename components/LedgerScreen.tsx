@@ -0,0 +1,91 @@
+import React from 'react';
+import { LedgerCategory, LedgerEntry, Location } from '../types';
+import { getCategoryTotals, getContractProfits } from '../engine/ledger';
+import { formatClock } from '../engine/calendar';
+import { BookOpen, Download, X } from 'lucide-react';
+
+interface LedgerScreenProps {
+  ledger: LedgerEntry[];
+  locations: Location[];
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const CATEGORIES: LedgerCategory[] = ['income', 'trade', 'fuel', 'repair', 'upgrade', 'fee', 'penalty', 'insurance', 'finance'];
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+const tone = (n: number) => (n > 0 ? 'text-green-500' : n < 0 ? 'text-red-400' : 'text-zinc-500');
+
+const LedgerScreen: React.FC<LedgerScreenProps> = ({ ledger, locations, onExport, onClose }) => {
+  const totals = getCategoryTotals(ledger);
+  const profits = getContractProfits(ledger).sort((a, b) => b.net - a.net);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-8">
+      <div className="w-full max-w-4xl max-h-full flex flex-col bg-zinc-950 border-2 border-amber-900 p-5 shadow-lg">
+        <div className="flex items-center justify-between border-b border-amber-900/50 pb-2 mb-4">
+          <h3 className="font-display text-amber-500 font-bold tracking-widest flex items-center gap-2">
+            <BookOpen size={16} />
+            LEDGER
+          </h3>
+          <div className="flex items-center gap-4">
+            <button onClick={onExport} disabled={ledger.length === 0} className="font-mono text-xs text-amber-700 hover:text-amber-500 flex items-center gap-1 disabled:opacity-30">
+              <Download size={14} />
+              EXPORT CSV
+            </button>
+            <button onClick={onClose} className="text-amber-700 hover:text-amber-500">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-8 min-h-0 flex-1">
+          <div className="col-span-2 flex flex-col min-h-0">
+            <h4 className="font-mono text-xs text-amber-500 font-bold tracking-widest border-b border-amber-900/50 pb-1 mb-2">TRANSACTIONS</h4>
+            <div className="overflow-y-auto font-mono text-[10px] space-y-1 pr-2">
+              {ledger.length === 0 && <p className="text-zinc-600">NO TRANSACTIONS YET.</p>}
+              {ledger.map((e, i) => ({ e, i })).reverse().map(({ e, i }) => (
+                <div key={i} className="grid grid-cols-[7rem_1fr_4rem_4rem] gap-2 border-t border-zinc-800 pt-1">
+                  <span className="text-zinc-500">{formatClock(e.t)}</span>
+                  <div className="min-w-0">
+                    <p className="text-amber-500 truncate">{e.memo}</p>
+                    <p className="text-zinc-600 uppercase truncate">
+                      {e.category} // {locations.find(l => l.id === e.locationId)?.name ?? 'IN FLIGHT'} // {e.faction}
+                    </p>
+                  </div>
+                  <span className={`text-right ${tone(e.amount)}`}>{signed(e.amount)}</span>
+                  <span className="text-right text-amber-300">{e.balance}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="overflow-y-auto min-h-0">
+            <h4 className="font-mono text-xs text-amber-500 font-bold tracking-widest border-b border-amber-900/50 pb-1 mb-2">BY CATEGORY</h4>
+            <div className="font-mono text-xs space-y-1 mb-6">
+              {CATEGORIES.map(c => (
+                <p key={c} className="flex justify-between">
+                  <span className="text-amber-700 uppercase">{c}</span>
+                  <span className={tone(totals[c] ?? 0)}>{signed(totals[c] ?? 0)} CR</span>
+                </p>
+              ))}
+            </div>
+
+            <h4 className="font-mono text-xs text-amber-500 font-bold tracking-widest border-b border-amber-900/50 pb-1 mb-2">PROFIT PER CONTRACT</h4>
+            <div className="font-mono text-[10px] space-y-1">
+              {profits.length === 0 && <p className="text-zinc-600">NO CONTRACT ACTIVITY.</p>}
+              {profits.map(p => (
+                <p key={p.id} className="flex justify-between gap-2">
+                  <span className="text-amber-700 uppercase truncate">{p.title}</span>
+                  <span className={`shrink-0 ${tone(p.net)}`}>{signed(p.net)} CR</span>
+                </p>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LedgerScreen;
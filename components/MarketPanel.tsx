@@ -0,0 +1,60 @@
+import React from 'react';
+import { CommodityId } from '../types';
+import { MarketQuote } from '../engine/market';
+import { Store } from 'lucide-react';
+
+interface MarketPanelProps {
+  quotes: MarketQuote[];
+  credits: number;
+  holdSpace: number;
+  onBuy: (id: CommodityId, quantity: number) => void;
+  onSell: (id: CommodityId, quantity: number) => void;
+  onHover?: () => void;
+}
+
+const TRADE_LOT = 5;
+
+const MarketPanel: React.FC<MarketPanelProps> = ({ quotes, credits, holdSpace, onBuy, onSell, onHover }) => {
+  if (quotes.length === 0) return null;
+
+  const btn = "border px-1.5 py-0.5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-700 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase">
+          <Store size={14} />
+          <span>Commodity Exchange</span>
+        </div>
+        <div className="text-[10px] font-mono text-amber-700">HOLD FREE: {holdSpace} U</div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-2 gap-y-1 text-[10px] font-mono items-center">
+        <span className="text-zinc-600">GOOD</span>
+        <span className="text-zinc-600 text-right">BUY</span>
+        <span className="text-zinc-600 text-right">SELL</span>
+        <span />
+        {quotes.map(q => {
+          const canBuy = holdSpace > 0 && q.stock > 0 && credits >= q.buyPrice;
+          return (
+            <React.Fragment key={q.commodity.id}>
+              <div className="min-w-0">
+                <p className={`uppercase font-bold truncate ${q.commodity.illegal ? 'text-red-400' : 'text-amber-500'}`}>{q.commodity.name}</p>
+                <p className="text-zinc-500">STK {q.stock}{q.owned > 0 && <span className="text-cyan-400"> // OWN {q.owned}</span>}</p>
+              </div>
+              <span className="text-amber-300 text-right">{q.buyPrice}</span>
+              <span className="text-amber-300 text-right">{q.sellPrice}</span>
+              <div className="flex gap-1" onMouseEnter={onHover}>
+                <button onClick={() => onBuy(q.commodity.id, 1)} disabled={!canBuy} className={`${btn} border-amber-700 text-amber-500 hover:bg-amber-500 hover:text-black`}>+1</button>
+                <button onClick={() => onBuy(q.commodity.id, TRADE_LOT)} disabled={!canBuy} className={`${btn} border-amber-700 text-amber-500 hover:bg-amber-500 hover:text-black`}>+{TRADE_LOT}</button>
+                <button onClick={() => onSell(q.commodity.id, q.owned)} disabled={q.owned <= 0} className={`${btn} border-cyan-800 text-cyan-400 hover:bg-cyan-500 hover:text-black`}>ALL</button>
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MarketPanel;
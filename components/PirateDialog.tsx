@@ -0,0 +1,63 @@
+import React from 'react';
+import { PirateEncounter, PirateResponse } from '../types';
+import { Skull } from 'lucide-react';
+
+interface PirateDialogProps {
+  encounter: PirateEncounter;
+  credits: number;
+  cargoValue: number;
+  escapeChance: number;
+  fightChance: number;
+  onRespond: (response: PirateResponse) => void;
+  onHover?: () => void;
+}
+
+const PirateDialog: React.FC<PirateDialogProps> = ({ encounter, credits, cargoValue, escapeChance, fightChance, onRespond, onHover }) => {
+  const collectors = !!encounter.collector;
+  const options: { id: PirateResponse; label: string; detail: string; disabled?: boolean }[] = collectors
+    ? [
+        { id: 'tribute', label: `Settle the arrears (${encounter.tribute} CR)`, detail: "Paid against the loan. They go home.", disabled: credits < encounter.tribute },
+        { id: 'dump', label: "Hand over the hold", detail: "Goods count against the arrears at list price. Jobs are lost." },
+        { id: 'run', label: "Outrun them", detail: `${Math.round(escapeChance * 100)}% // burns fuel, takes fire if caught` },
+        { id: 'fight', label: "Fight", detail: `${Math.round(fightChance * 100)}% // no bounty, and the lender won't forget` }
+      ]
+    : [
+        { id: 'tribute', label: `Pay tribute (${encounter.tribute} CR)`, detail: "They take the money and leave.", disabled: credits < encounter.tribute },
+        { id: 'dump', label: "Dump the cargo", detail: `Vent ~${cargoValue} CR of goods and jobs. Issuers won't forget.` },
+        { id: 'run', label: "Outrun them", detail: `${Math.round(escapeChance * 100)}% // burns fuel, takes fire if caught` },
+        { id: 'fight', label: "Fight", detail: `${Math.round(fightChance * 100)}% // bounty if we win, plundered if we lose` }
+      ];
+  const crew = collectors ? 'Debt Collectors' : encounter.ships === 1 ? 'Raider' : `${encounter.ships} Raiders`;
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black/60 flex items-center justify-center p-8">
+      <div className="w-full max-w-md bg-zinc-950 border-2 border-red-500/70 p-5 shadow-[0_0_30px_rgba(239,68,68,0.2)]">
+        <div className="flex items-center gap-2 text-red-500 font-display uppercase tracking-widest mb-1">
+          <Skull size={18} />
+          <span>{crew} Closing</span>
+        </div>
+        <p className="text-[10px] font-mono text-zinc-500 uppercase mb-3">Weapons hot // flight holding</p>
+        <p className="text-sm font-mono text-amber-100/80 mb-4">{collectors
+          ? "\"Your lender would like a word about the account. Cut your burn.\""
+          : "\"Cut your burn and open the hold. Nobody has to get hurt.\""}</p>
+
+        <div className="space-y-2">
+          {options.map(o => (
+            <button
+              key={o.id}
+              onClick={() => onRespond(o.id)}
+              onMouseEnter={onHover}
+              disabled={o.disabled}
+              className="w-full text-left border border-amber-700 p-2 hover:bg-amber-500 hover:text-black text-amber-500 transition-colors group disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <p className="font-bold text-xs uppercase">{o.label}</p>
+              <p className="text-[10px] font-mono text-zinc-500 group-hover:text-black/70">{o.detail}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PirateDialog;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { RepTierProfile } from '../types';
+
+interface RepBadgeProps {
+  profile: RepTierProfile;
+}
+
+const RepBadge: React.FC<RepBadgeProps> = ({ profile }) => (
+  <span
+    className="text-[10px] px-1.5 rounded border font-mono uppercase tracking-widest"
+    style={{ color: profile.color, borderColor: profile.color }}
+  >
+    {profile.tier}
+  </span>
+);
+
+export default RepBadge;
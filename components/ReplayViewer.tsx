@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ReplayLog } from '../types';
+import { getDynamicLocations } from '../engine/orbits';
+import { getShipPosition, getShipRotation } from '../engine/flight';
+import { buildKeyframes, seekReplay, advanceReplay } from '../engine/replay';
+import { getRecentLogs } from '../engine/log';
+import { MAX_FRAME_MS, TICK_MS } from '../engine/clock';
+import { getShipSystemId, getSystem } from '../engine/gates';
+import { STAR_SYSTEMS } from '../constants';
+import GameMap from './GameMap';
+import { SEVERITY_COLORS } from './CommsConsole';
+import { Play, Pause, SkipBack, X, Film } from 'lucide-react';
+
+interface ReplayViewerProps {
+  replay: ReplayLog;
+  onExit: () => void;
+}
+
+const SPEEDS = [1, 4, 16, 64];
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit }) => {
+  const keyframes = useMemo(() => buildKeyframes(replay), [replay]);
+  const [frame, setFrame] = useState(keyframes[0]);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(4);
+
+  const state = frame.state;
+  // The camera follows the ship from system to system
+  const system = getSystem(getShipSystemId(state)) ?? STAR_SYSTEMS[0];
+  const locations = useMemo(() => getDynamicLocations(state.gameTime).filter(l => l.system === system.id), [state.gameTime, system.id]);
+  const atEnd = state.gameTime >= replay.endTime || state.isGameOver;
+
+  // Playback loop: the same fixed-step clock as the game, run `speed`
+  // times faster, so playback doesn't depend on the display's refresh rate
+  useEffect(() => {
+    if (!playing) return;
+    let id: number;
+    let last: number | null = null;
+    let accumulator = 0;
+    const loop = (now: number) => {
+      accumulator += Math.min(MAX_FRAME_MS, now - (last ?? now)) * speed;
+      last = now;
+      const ticks = Math.floor(accumulator / TICK_MS);
+      accumulator -= ticks * TICK_MS;
+      if (ticks > 0) setFrame(prev => advanceReplay(replay, prev, ticks));
+      id = requestAnimationFrame(loop);
+    };
+    id = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(id);
+  }, [playing, speed, replay]);
+
+  useEffect(() => {
+    if (atEnd) setPlaying(false);
+  }, [atEnd]);
+
+  const togglePlay = () => {
+    if (atEnd) setFrame(keyframes[0]);
+    setPlaying(!playing || atEnd);
+  };
+
+  const scrubTo = (time: number) => {
+    setPlaying(false);
+    setFrame(seekReplay(replay, keyframes, time));
+  };
+
+  return (
+    <div className="w-full h-screen bg-zinc-950 p-4 flex flex-col crt select-none overflow-hidden">
+      <header className="h-16 border-b-2 border-amber-900/50 flex items-center justify-between px-4 mb-4 bg-zinc-900/50">
+        <h1 className="text-2xl font-display font-bold text-amber-500 tracking-wider flex items-center gap-2">
+          <Film />
+          FLIGHT RECORDER
+        </h1>
+        <div className="flex items-center gap-8 font-mono text-amber-400 text-sm">
+          <span>SEED {replay.seed}</span>
+          <span>{state.credits} CR</span>
+          <span>{Math.round(state.fuel)} L</span>
+          <span>HULL {Math.round(state.hull)}%</span>
+          <button onClick={onExit} className="hover:text-amber-200 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 relative min-h-0">
+        <GameMap
+          gameState={state}
+          system={system}
+          locations={locations}
+          onLocationClick={() => {}}
+          shipPosition={getShipPosition(state)}
+          shipRotation={getShipRotation(state)}
+        />
+
+        <div className="absolute bottom-4 left-4 right-4 h-24 pointer-events-none">
+          <div className="w-full h-full bg-black/40 backdrop-blur-sm border-t border-amber-900/30 p-2 font-mono text-xs flex flex-col justify-end">
+            {getRecentLogs(state.logs).map(l => (
+              <p key={l.id} className={`opacity-80 drop-shadow-md ${SEVERITY_COLORS[l.severity]}`}>{'>'} {l.text}</p>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* TRANSPORT CONTROLS */}
+      <div className="h-16 border-t-2 border-amber-900/50 mt-4 flex items-center gap-4 px-4 font-mono text-amber-500 text-xs">
+        <button onClick={() => scrubTo(0)} className="hover:text-amber-200">
+          <SkipBack size={18} />
+        </button>
+        <button onClick={togglePlay} className="hover:text-amber-200">
+          {playing ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <input
+          type="range"
+          min="0"
+          max={replay.endTime}
+          value={state.gameTime}
+          onChange={(e) => scrubTo(Number(e.target.value))}
+          className="flex-1 accent-amber-500 h-2 bg-zinc-800 rounded-lg appearance-none cursor-pointer"
+        />
+        <span className="w-28 text-right">T+{state.gameTime} / {replay.endTime}</span>
+        <div className="flex gap-1">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={`px-2 py-1 border ${speed === s ? 'border-amber-500 bg-amber-900/30' : 'border-amber-900 text-amber-700 hover:text-amber-500'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
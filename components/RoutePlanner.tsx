@@ -0,0 +1,92 @@
+import React from 'react';
+import { FlightPlan, Location, Route, RouteRanking } from '../types';
+import { getRouteKey } from '../engine/route';
+import { getSystem, getSystemId, isJump } from '../engine/gates';
+import { Route as RouteIcon } from 'lucide-react';
+
+interface RoutePlannerProps {
+  routes: Route[]; // Already ranked
+  ranking: RouteRanking;
+  selected: Route | null;
+  locations: Location[];
+  gameTime: number;
+  onRank: (by: RouteRanking) => void;
+  onSelect: (route: Route) => void;
+  onHover?: () => void;
+}
+
+const RANKINGS: { id: RouteRanking; label: string }[] = [
+  { id: 'time', label: 'FASTEST' },
+  { id: 'cost', label: 'CHEAPEST' },
+  { id: 'risk', label: 'SAFEST' }
+];
+
+const MAX_SHOWN = 3;
+
+const RoutePlanner: React.FC<RoutePlannerProps> = ({ routes, ranking, selected, locations, gameTime, onRank, onSelect, onHover }) => {
+  const nameOf = (id: string) => locations.find(l => l.id === id)?.name ?? "UNKNOWN";
+  // A jump is named for where it goes, not the gate it comes out of
+  const legName = (plan: FlightPlan) => {
+    return isJump(plan) ? `JUMP: ${getSystem(getSystemId(plan.destinationId))?.name ?? "UNKNOWN"}` : nameOf(plan.destinationId);
+  };
+
+  return (
+    <div className="bg-black/20 p-3 border border-amber-900/30">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase">
+          <RouteIcon size={14} />
+          <span>Route Plot</span>
+        </div>
+        <div className="flex gap-1 text-[10px] font-mono" onMouseEnter={onHover}>
+          {RANKINGS.map(r => (
+            <button
+              key={r.id}
+              onClick={() => onRank(r.id)}
+              className={`border px-1.5 py-0.5 transition-colors ${ranking === r.id ? 'border-amber-500 bg-amber-500 text-black' : 'border-amber-900 text-amber-700 hover:text-amber-500'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {routes.length === 0 ? (
+        <p className="text-xs font-mono text-red-500 text-center py-2">NO ROUTE IN RANGE</p>
+      ) : (
+        <div className="space-y-2">
+          {routes.slice(0, MAX_SHOWN).map(route => {
+            const isSelected = selected !== null && getRouteKey(selected) === getRouteKey(route);
+            return (
+              <button
+                key={getRouteKey(route)}
+                onClick={() => onSelect(route)}
+                onMouseEnter={onHover}
+                className={`w-full text-left p-2 border font-mono text-[10px] transition-colors ${isSelected ? 'border-amber-500 bg-amber-500/10' : 'border-zinc-800 hover:border-amber-700'}`}
+              >
+                <div className="flex justify-between text-amber-500 font-bold mb-1">
+                  <span>{route.legs.length === 1 ? 'DIRECT' : `${route.legs.length} LEGS`}</span>
+                  <span>
+                    T+{route.arrivalTime - gameTime} // {route.fuelCost + route.tolls} CR // {Math.round(route.risk * 100)}% RISK
+                    {route.lowReserve && <span className="text-red-500"> // LOW RESERVE</span>}
+                  </span>
+                </div>
+                {route.legs.map((leg, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_auto_auto_auto] gap-x-2 text-zinc-400">
+                    <span className={`truncate uppercase ${isJump(leg.plan) ? 'text-cyan-400' : ''}`}>{'>'} {legName(leg.plan)}</span>
+                    <span>T+{leg.plan.departTime + leg.plan.duration - gameTime}</span>
+                    <span>{Math.ceil(leg.plan.fuel)} L</span>
+                    <span className={leg.refuelCost > 0 || isJump(leg.plan) ? 'text-cyan-400' : 'text-zinc-600'}>
+                      {leg.refuel > 0 ? `+${leg.refuel}L ${leg.refuelCost} CR` : isJump(leg.plan) ? `TOLL ${leg.plan.toll} CR` : '--'}
+                    </span>
+                  </div>
+                ))}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoutePlanner;
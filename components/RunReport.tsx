@@ -0,0 +1,36 @@
+import React from 'react';
+import { LocationType, RunStats } from '../types';
+import { FACTIONS, LOCATIONS } from '../constants';
+
+interface RunReportProps {
+  title: string;
+  stats: RunStats;
+}
+
+const RunReport: React.FC<RunReportProps> = ({ title, stats }) => {
+  const rows: [string, string | number][] = [
+    ...FACTIONS.map(f => [`DELIVERIES // ${f.id.split(' ')[0]}`, stats.deliveries[f.id] ?? 0] as [string, number]),
+    ['PORTS DELIVERED TO', `${stats.deliveredTo.length}/${LOCATIONS.filter(l => l.type !== LocationType.GATE).length}`],
+    ['DISTANCE FLOWN', `${Math.round(stats.distanceFlown)} AU`],
+    ['FUEL BOUGHT', `${Math.round(stats.fuelBought)} L`],
+    ['SPENT ON REPAIRS', `${stats.repairSpend} CR (${stats.repairs}x)`],
+    ['JOBS LOST TO RIVALS', stats.contractsLostToRivals],
+    ['NEAR MISSES', stats.nearMisses]
+  ];
+
+  return (
+    <div className="font-mono text-xs">
+      <h4 className="text-amber-500 font-bold tracking-widest border-b border-amber-900/50 pb-1 mb-2">{title}</h4>
+      <div className="space-y-0.5">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-4">
+            <span className="text-amber-700">{label}</span>
+            <span className="text-amber-300">{value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RunReport;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { LOCATIONS } from '../constants';
+import { SaveSlotId, SaveSummary, ALL_SLOTS, MANUAL_SLOTS } from '../save';
+import { HardDrive, X } from 'lucide-react';
+
+interface SaveSlotsProps {
+  mode: 'save' | 'load';
+  saves: SaveSummary[];
+  onSelect: (slot: SaveSlotId) => void;
+  onClose?: () => void;
+  onHover?: () => void;
+}
+
+const slotLabel = (slot: SaveSlotId) => slot === 'auto' ? 'AUTOSAVE' : `SLOT ${slot.split('-')[1]}`;
+
+const SaveSlots: React.FC<SaveSlotsProps> = ({ mode, saves, onSelect, onClose, onHover }) => {
+  // The autosave slot can be loaded but never written by hand
+  const slots = mode === 'save' ? MANUAL_SLOTS : ALL_SLOTS;
+
+  return (
+    <div className="bg-zinc-950 border-2 border-amber-900 p-4 w-80 font-mono text-left shadow-lg">
+      <div className="flex items-center justify-between border-b border-amber-900/50 pb-2 mb-3">
+        <h3 className="font-display text-amber-500 font-bold tracking-widest text-sm flex items-center gap-2">
+          <HardDrive size={14} />
+          {mode === 'save' ? 'WRITE TO TAPE' : 'LOAD FROM TAPE'}
+        </h3>
+        {onClose && (
+          <button onClick={onClose} className="text-amber-700 hover:text-amber-500">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {slots.map(slot => {
+          const save = saves.find(s => s.slot === slot);
+          const disabled = mode === 'load' && !save;
+          const locName = save ? LOCATIONS.find(l => l.id === save.locationId)?.name ?? 'UNKNOWN' : null;
+
+          return (
+            <button
+              key={slot}
+              onClick={() => onSelect(slot)}
+              onMouseEnter={onHover}
+              disabled={disabled}
+              className="w-full border border-amber-900/50 hover:border-amber-500 p-2 text-xs disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:border-amber-900/50 transition-colors"
+            >
+              <div className="flex justify-between text-amber-500 font-bold">
+                <span>{slotLabel(slot)}</span>
+                <span>{save ? `${save.credits} CR` : '-- EMPTY --'}</span>
+              </div>
+              {save && (
+                <div className="flex justify-between text-[10px] text-amber-700 mt-1">
+                  <span className="uppercase">{save.isFlying ? 'IN TRANSIT' : locName} // SEED {save.seed}</span>
+                  <span>{new Date(save.savedAt).toLocaleDateString()}</span>
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SaveSlots;
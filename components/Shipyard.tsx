@@ -0,0 +1,71 @@
+import React from 'react';
+import { ShipStats, ShipyardProfile } from '../types';
+import { UpgradeOffer } from '../engine/shipyard';
+import { Wrench } from 'lucide-react';
+
+interface ShipyardProps {
+  yard: ShipyardProfile;
+  offers: UpgradeOffer[];
+  ship: ShipStats;
+  credits: number;
+  onBuy: (offer: UpgradeOffer) => void;
+  onHover?: () => void;
+}
+
+const formatStat = (stat: keyof ShipStats, value: number) => {
+  switch (stat) {
+    case 'speed': return `${value.toFixed(1)} AU/t`;
+    case 'fuelEfficiency': return `x${value.toFixed(2)} burn`;
+    case 'maxFuel': return `${value} L`;
+    case 'maxHull': return `${value} HP`;
+    case 'cargoCapacity': return `${value} U`;
+  }
+};
+
+const Shipyard: React.FC<ShipyardProps> = ({ yard, offers, ship, credits, onBuy, onHover }) => {
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-700 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase">
+          <Wrench size={14} />
+          <span>Shipyard</span>
+        </div>
+        <div className="text-[10px] font-mono text-amber-700 uppercase">{yard.name}</div>
+      </div>
+
+      <div className="space-y-1">
+        {offers.map(offer => {
+          const { line, next, price, currentTier } = offer;
+          const canAfford = credits >= price;
+
+          return (
+            <div key={line.kind} className="flex items-center justify-between gap-2 text-[10px] font-mono border-t border-zinc-800 pt-1">
+              <div className="min-w-0">
+                <p className="text-amber-500 uppercase font-bold">{line.name} <span className="text-amber-800">T{currentTier}</span></p>
+                <p className="text-zinc-500 truncate">
+                  {formatStat(line.stat, ship[line.stat])}
+                  {next && <span className="text-amber-300"> → {formatStat(line.stat, next.value)}</span>}
+                </p>
+              </div>
+              {next ? (
+                <button
+                  onClick={() => onBuy(offer)}
+                  onMouseEnter={onHover}
+                  disabled={!canAfford}
+                  title={next.name}
+                  className="shrink-0 bg-amber-900/30 border border-amber-500 text-amber-500 px-2 py-1 hover:bg-amber-500 hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {price} CR
+                </button>
+              ) : (
+                <span className="shrink-0 text-zinc-600">{currentTier + 1 < line.tiers.length ? 'NOT STOCKED' : 'MAXED'}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Shipyard;
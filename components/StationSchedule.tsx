@@ -0,0 +1,41 @@
+import React from 'react';
+import { Location } from '../types';
+import { DailyCost } from '../engine/upkeep';
+import { ScheduledStationEvent, formatDuration, getWeekdayName } from '../engine/calendar';
+import { CalendarDays } from 'lucide-react';
+
+interface StationScheduleProps {
+  schedule: ScheduledStationEvent[];
+  dailyCosts: DailyCost[];
+  locations: Location[];
+  gameTime: number;
+}
+
+const StationSchedule: React.FC<StationScheduleProps> = ({ schedule, dailyCosts, locations, gameTime }) => (
+  <div className="bg-zinc-900/50 border border-zinc-700 p-3">
+    <div className="flex justify-between items-center mb-2">
+      <div className="flex items-center gap-2 text-amber-500 font-bold text-xs uppercase">
+        <CalendarDays size={14} />
+        <span>Station Calendar</span>
+      </div>
+      <div className="text-[10px] font-mono text-amber-700">
+        NIGHTLY: {dailyCosts.map(c => `${c.label} ${c.amount}`).join(' / ')} CR
+      </div>
+    </div>
+
+    <div className="space-y-1 text-[10px] font-mono">
+      {schedule.map(({ event, startsAt, active }) => (
+        <div key={event.id} className="flex justify-between gap-2" title={event.desc}>
+          <span className={active ? "text-green-500 font-bold" : "text-amber-500"}>
+            {event.name.toUpperCase()} // {locations.find(l => l.id === event.locationId)?.name.toUpperCase()}
+          </span>
+          <span className={active ? "text-green-500" : "text-zinc-500"}>
+            {active ? 'TODAY' : `${getWeekdayName(event.weekday)} IN ${formatDuration(startsAt - gameTime)}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default StationSchedule;
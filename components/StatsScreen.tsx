@@ -0,0 +1,60 @@
+import React from 'react';
+import { GameState } from '../types';
+import { CareerRecord } from '../career';
+import { ACHIEVEMENTS } from '../engine/achievements';
+import RunReport from './RunReport';
+import { Trophy, X } from 'lucide-react';
+
+interface StatsScreenProps {
+  state: GameState;
+  career: CareerRecord;
+  onClose: () => void;
+}
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ state, career, onClose }) => (
+  <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-8">
+    <div className="w-full max-w-3xl bg-zinc-950 border-2 border-amber-900 p-5 shadow-lg">
+      <div className="flex items-center justify-between border-b border-amber-900/50 pb-2 mb-4">
+        <h3 className="font-display text-amber-500 font-bold tracking-widest flex items-center gap-2">
+          <Trophy size={16} />
+          PILOT RECORD
+        </h3>
+        <button onClick={onClose} className="text-amber-700 hover:text-amber-500">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-8 mb-6">
+        <RunReport title={`THIS RUN // SEED ${state.seed}`} stats={state.stats} />
+        <div>
+          <RunReport title={`CAREER // ${career.runs} RUN${career.runs === 1 ? '' : 'S'} ENDED`} stats={career.totals} />
+          <p className="font-mono text-xs text-amber-700 mt-2 flex justify-between">
+            <span>BEST FINISH</span>
+            <span className="text-amber-300">{career.bestCredits} CR</span>
+          </p>
+        </div>
+      </div>
+
+      <h4 className="font-mono text-xs text-amber-500 font-bold tracking-widest border-b border-amber-900/50 pb-1 mb-2">ACHIEVEMENTS</h4>
+      <div className="grid grid-cols-2 gap-2 font-mono text-[10px]">
+        {ACHIEVEMENTS.map(a => {
+          const thisRun = state.achievements.includes(a.id);
+          const earnedAt = career.achievements[a.id];
+          return (
+            <div key={a.id} className={`border p-2 ${thisRun || earnedAt ? 'border-amber-500' : 'border-zinc-800 opacity-50'}`}>
+              <p className="text-amber-500 font-bold uppercase flex justify-between">
+                <span>{a.name}</span>
+                {thisRun ? <span className="text-green-500">THIS RUN</span>
+                  : earnedAt ? <span className="text-amber-700">{new Date(earnedAt).toLocaleDateString()}</span>
+                  : null}
+              </p>
+              <p className="text-zinc-500">{a.desc}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
+
+export default StatsScreen;
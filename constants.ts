@@ -1,4 +1,4 @@
-import { Faction, Location, LocationType, ShipStats, SCREEN_WIDTH, SCREEN_HEIGHT } from './types';
+import { BankProfile, Campaign, Commodity, CommodityId, ContractTemplate, Faction, FactionProfile, FlightEvent, Location, LocationType, MarketProfile, RepTierProfile, ShipStats, ShipyardProfile, StarSystem, StationEvent, UpgradeKind, UpgradeLine, SCREEN_WIDTH, SCREEN_HEIGHT } from './types';
 
 const CENTER_X = SCREEN_WIDTH / 2;
 const CENTER_Y = SCREEN_HEIGHT / 2;
@@ -6,6 +6,22 @@ const CENTER_Y = SCREEN_HEIGHT / 2;
 // "Ghost Processional" - Kevin MacLeod (Odd, Theremin-esque, Spooky/Quirky)
 export const MUSIC_TRACK_URL = "https://upload.wikimedia.org/wikipedia/commons/c/c4/Ghost_Processional_-_Kevin_MacLeod.ogg";
 
+export const LOG_OVERLAY_LENGTH = 5; // Newest comms lines shown over the map
+export const CUE_BUFFER_LENGTH = 8;
+export const LOG_HISTORY_LENGTH = 500; // Comms entries kept in the run; unacknowledged alerts are never dropped
+export const LEDGER_HISTORY_LENGTH = 1000; // Ledger lines kept before the oldest are brought forward
+
+export const REPAIR_COST_PER_HP = 2;
+
+// Ordered worst to best. Hostile factions deny services and will not
+// clear you to dock at their stations.
+export const REP_TIERS: RepTierProfile[] = [
+  { tier: 'hostile', minRep: -Infinity, priceMultiplier: 2.0, payMultiplier: 1.0, color: "#ef4444" },
+  { tier: 'neutral', minRep: 0, priceMultiplier: 1.0, payMultiplier: 1.0, color: "#a1a1aa" },
+  { tier: 'trusted', minRep: 40, priceMultiplier: 0.9, payMultiplier: 1.1, color: "#22c55e" },
+  { tier: 'allied', minRep: 75, priceMultiplier: 0.75, payMultiplier: 1.25, color: "#06b6d4" }
+];
+
 export const INITIAL_SHIP_STATS: ShipStats = {
   speed: 1.5,
   fuelEfficiency: 1.0,
@@ -14,12 +30,142 @@ export const INITIAL_SHIP_STATS: ShipStats = {
   cargoCapacity: 10
 };
 
+export const INITIAL_UPGRADES: Record<UpgradeKind, number> = {
+  engine: 0,
+  tank: 0,
+  armor: 0,
+  efficiency: 0,
+  cargo: 0
+};
+
+// Tier 0 of every line matches INITIAL_SHIP_STATS
+export const SHIP_UPGRADES: UpgradeLine[] = [
+  {
+    kind: 'engine',
+    name: 'Engines',
+    stat: 'speed',
+    tiers: [
+      { name: 'Stock Thrusters', value: 1.5, price: 0 },
+      { name: 'Mk II Thrusters', value: 2.0, price: 300 },
+      { name: 'Mk III Afterburner', value: 2.6, price: 700 },
+      { name: 'Comet Ramjet', value: 3.3, price: 1500 }
+    ]
+  },
+  {
+    kind: 'tank',
+    name: 'Fuel Tanks',
+    stat: 'maxFuel',
+    tiers: [
+      { name: 'Stock Tank', value: 500, price: 0 },
+      { name: 'Drop Tank', value: 650, price: 250 },
+      { name: 'Saddle Tanks', value: 800, price: 600 },
+      { name: 'Long-Range Bladder', value: 1000, price: 1200 }
+    ]
+  },
+  {
+    kind: 'armor',
+    name: 'Armor',
+    stat: 'maxHull',
+    tiers: [
+      { name: 'Stock Plating', value: 100, price: 0 },
+      { name: 'Riveted Plate', value: 130, price: 250 },
+      { name: 'Ablative Shell', value: 170, price: 600 },
+      { name: 'Battleship Steel', value: 220, price: 1300 }
+    ]
+  },
+  {
+    kind: 'efficiency',
+    name: 'Fuel Injection',
+    stat: 'fuelEfficiency',
+    tiers: [
+      { name: 'Stock Carburetor', value: 1.0, price: 0 },
+      { name: 'Twin Injectors', value: 0.85, price: 350 },
+      { name: 'Vacuum Regulator', value: 0.7, price: 800 },
+      { name: 'Atomic Economizer', value: 0.55, price: 1600 }
+    ]
+  },
+  {
+    kind: 'cargo',
+    name: 'Cargo Hold',
+    stat: 'cargoCapacity',
+    tiers: [
+      { name: 'Stock Hold', value: 10, price: 0 },
+      { name: 'Extended Hold', value: 15, price: 200 },
+      { name: 'Freight Pod', value: 20, price: 500 },
+      { name: 'Hauler Conversion', value: 30, price: 1100 }
+    ]
+  }
+];
+
+// Every faction in play. Content packs add to this at runtime.
+export const FACTIONS: FactionProfile[] = [
+  { id: Faction.X33, color: "#3b82f6", startingRep: 50 }, // Blue-500
+  { id: Faction.X63, color: "#d946ef", startingRep: 40 }, // Fuchsia-500
+  { id: Faction.X99, color: "#f97316", startingRep: 20 }, // Orange-500
+  { id: Faction.NEUTRAL, color: "#a1a1aa", startingRep: 0 } // Zinc-400
+];
+
+// Station yards by faction. X-33 sells military surplus at a premium,
+// X-99 sells whatever fell off the last freighter, cheap.
+export const SHIPYARDS: Partial<Record<Faction, ShipyardProfile>> = {
+  [Faction.X33]: {
+    name: "Liberty Surplus Depot",
+    priceMultiplier: 1.25,
+    maxTier: { engine: 2, tank: 3, armor: 3, efficiency: 2, cargo: 2 }
+  },
+  [Faction.X63]: {
+    name: "Bazaar Refit Row",
+    priceMultiplier: 1.0,
+    maxTier: { engine: 2, tank: 2, armor: 1, efficiency: 3, cargo: 3 }
+  },
+  [Faction.X99]: {
+    name: "Fringe Junkyard",
+    priceMultiplier: 0.7,
+    maxTier: { engine: 3, tank: 2, armor: 1, efficiency: 1, cargo: 2 }
+  }
+};
+
+// Station banks by faction. Liberty lends little, cheaply and only to
+// people it trusts; the Bazaar's rate floats with the market; the Fringe
+// lends to anyone and sends someone round when you're late.
+export const BANKS: Partial<Record<Faction, BankProfile>> = {
+  [Faction.X33]: {
+    name: "Liberty Savings & Loan",
+    minTier: 'trusted',
+    maxLoan: 400,
+    rate: 0.01,
+    termDays: 14,
+    paymentInterval: 7,
+    collection: 'reputation'
+  },
+  [Faction.X63]: {
+    name: "Bazaar Exchange House",
+    minTier: 'neutral',
+    maxLoan: 600,
+    rate: 0.02,
+    rateSwing: 0.015,
+    termDays: 14,
+    paymentInterval: 7,
+    collection: 'seizure'
+  },
+  [Faction.X99]: {
+    name: "Fringe Credit Union",
+    minTier: 'neutral',
+    maxLoan: 1000,
+    rate: 0.05,
+    termDays: 8,
+    paymentInterval: 2,
+    collection: 'collectors'
+  }
+};
+
 export const LOCATIONS: Location[] = [
   // Stations (Hubs) - Inner Orbit (Radius ~100-140)
   {
     id: 'station-x33',
     name: 'X-33 Liberty',
     type: LocationType.STATION,
+    system: 'terra-nv',
     faction: Faction.X33,
     coords: { x: 0, y: 0 }, // Calculated at runtime
     description: "Military surplus aesthetic. Clean, strict, expensive fuel.",
@@ -33,6 +179,7 @@ export const LOCATIONS: Location[] = [
     id: 'station-x63',
     name: 'X-63 Bazaar',
     type: LocationType.STATION,
+    system: 'terra-nv',
     faction: Faction.X63,
     coords: { x: 0, y: 0 },
     description: "Neon-lit marketplace. Risky deals, average fuel prices.",
@@ -46,6 +193,7 @@ export const LOCATIONS: Location[] = [
     id: 'station-x99',
     name: 'X-99 Fringe',
     type: LocationType.STATION,
+    system: 'terra-nv',
     faction: Faction.X99,
     coords: { x: 0, y: 0 },
     description: "Smoky, dim lights. Cheap dirty fuel, high repair costs.",
@@ -61,6 +209,7 @@ export const LOCATIONS: Location[] = [
     id: 'moon-liberty1',
     name: 'New Kansas',
     type: LocationType.MOON,
+    system: 'terra-nv',
     faction: Faction.X33,
     coords: { x: 0, y: 0 },
     description: "Terraformed agricultural dome.",
@@ -74,6 +223,7 @@ export const LOCATIONS: Location[] = [
     id: 'moon-atlas7',
     name: 'Atlas-7',
     type: LocationType.MOON,
+    system: 'terra-nv',
     faction: Faction.X63,
     coords: { x: 0, y: 0 },
     description: "Corporate mining facility.",
@@ -87,6 +237,7 @@ export const LOCATIONS: Location[] = [
     id: 'moon-bloodrust',
     name: 'Blood Rust',
     type: LocationType.MOON,
+    system: 'terra-nv',
     faction: Faction.X99,
     coords: { x: 0, y: 0 },
     description: "Pirate haven in the red dust.",
@@ -100,6 +251,7 @@ export const LOCATIONS: Location[] = [
     id: 'moon-cryo9',
     name: 'Cryo-9',
     type: LocationType.MOON,
+    system: 'terra-nv',
     faction: Faction.X33,
     coords: { x: 0, y: 0 },
     description: "Ice harvesting plant.",
@@ -113,6 +265,7 @@ export const LOCATIONS: Location[] = [
     id: 'moon-glimmer',
     name: 'Glimmer',
     type: LocationType.MOON,
+    system: 'terra-nv',
     faction: Faction.NEUTRAL,
     coords: { x: 0, y: 0 },
     description: "Luxury resort for the elite.",
@@ -121,14 +274,632 @@ export const LOCATIONS: Location[] = [
     orbitRadius: 310,
     orbitSpeed: 0.04,
     initialAngle: 0
+  },
+
+  // Gate out to Kessler Reach - a slow orbit between the stations and the moons
+  {
+    id: 'gate-terra-kessler',
+    name: 'Kessler Gate',
+    type: LocationType.GATE,
+    system: 'terra-nv',
+    faction: Faction.NEUTRAL,
+    coords: { x: 0, y: 0 },
+    description: "Gate Authority ring. Tolls up front, no refunds.",
+    color: "#a1a1aa",
+    fuelPrice: 3.2, // Authority fuel, priced for people with no choice
+    orbitRadius: 175,
+    orbitSpeed: 0.09,
+    initialAngle: 200,
+    gate: { to: 'gate-kessler-terra', toll: 60, fuel: 40 }
+  },
+
+  // KESSLER REACH - the Bazaar's ore country, with a Liberty picket on the edge
+  {
+    id: 'station-kessler',
+    name: 'Kessler Exchange',
+    type: LocationType.STATION,
+    system: 'kessler',
+    faction: Faction.X63,
+    coords: { x: 0, y: 0 },
+    description: "Ore brokers and bonded warehouses. The Bazaar's second home.",
+    color: "#d946ef",
+    fuelPrice: 1.0,
+    orbitRadius: 110,
+    orbitSpeed: 0.17,
+    initialAngle: 60
+  },
+  {
+    id: 'moon-foundry',
+    name: 'Foundry',
+    type: LocationType.MOON,
+    system: 'kessler',
+    faction: Faction.X63,
+    coords: { x: 0, y: 0 },
+    description: "Smelters running day and night.",
+    color: "#a8a29e",
+    fuelPrice: 2.6,
+    orbitRadius: 230,
+    orbitSpeed: 0.066,
+    initialAngle: 150
+  },
+  {
+    id: 'moon-picket',
+    name: 'Picket Seven',
+    type: LocationType.MOON,
+    system: 'kessler',
+    faction: Faction.X33,
+    coords: { x: 0, y: 0 },
+    description: "Liberty listening post on the frontier.",
+    color: "#60a5fa",
+    fuelPrice: 2.4,
+    orbitRadius: 275,
+    orbitSpeed: 0.05,
+    initialAngle: 320
+  },
+  {
+    id: 'gate-kessler-terra',
+    name: 'Terra Gate',
+    type: LocationType.GATE,
+    system: 'kessler',
+    faction: Faction.NEUTRAL,
+    coords: { x: 0, y: 0 },
+    description: "Gate Authority ring. Tolls up front, no refunds.",
+    color: "#a1a1aa",
+    fuelPrice: 3.2,
+    orbitRadius: 170,
+    orbitSpeed: 0.09,
+    initialAngle: 20,
+    gate: { to: 'gate-terra-kessler', toll: 60, fuel: 40 }
+  },
+  {
+    id: 'gate-kessler-vanta',
+    name: 'Vanta Gate',
+    type: LocationType.GATE,
+    system: 'kessler',
+    faction: Faction.NEUTRAL,
+    coords: { x: 0, y: 0 },
+    description: "Long-haul gate out to the Drift. Toll and burn to match.",
+    color: "#a1a1aa",
+    fuelPrice: 3.6,
+    orbitRadius: 195,
+    orbitSpeed: 0.075,
+    initialAngle: 250,
+    gate: { to: 'gate-vanta-kessler', toll: 90, fuel: 55 }
+  },
+
+  // VANTA DRIFT - past the last patrols; the Fringe runs what there is
+  {
+    id: 'station-vanta',
+    name: 'X-99 Undertow',
+    type: LocationType.STATION,
+    system: 'vanta',
+    faction: Faction.X99,
+    coords: { x: 0, y: 0 },
+    description: "Hollowed asteroid full of people who'd rather not be found.",
+    color: "#f97316",
+    fuelPrice: 0.7,
+    orbitRadius: 105,
+    orbitSpeed: 0.18,
+    initialAngle: 270
+  },
+  {
+    id: 'moon-wreckyard',
+    name: 'Wreckyard',
+    type: LocationType.MOON,
+    system: 'vanta',
+    faction: Faction.X99,
+    coords: { x: 0, y: 0 },
+    description: "Ship graveyard picked over by raiders.",
+    color: "#ef4444",
+    fuelPrice: 3.8,
+    orbitRadius: 240,
+    orbitSpeed: 0.06,
+    initialAngle: 30
+  },
+  {
+    id: 'moon-lighthouse',
+    name: 'Lighthouse',
+    type: LocationType.MOON,
+    system: 'vanta',
+    faction: Faction.NEUTRAL,
+    coords: { x: 0, y: 0 },
+    description: "Beacon keepers who sell to anyone who makes it this far.",
+    color: "#eab308",
+    fuelPrice: 4.2,
+    orbitRadius: 290,
+    orbitSpeed: 0.045,
+    initialAngle: 200
+  },
+  {
+    id: 'gate-vanta-kessler',
+    name: 'Kessler Gate',
+    type: LocationType.GATE,
+    system: 'vanta',
+    faction: Faction.NEUTRAL,
+    coords: { x: 0, y: 0 },
+    description: "Long-haul gate back to Kessler Reach. Toll and burn to match.",
+    color: "#a1a1aa",
+    fuelPrice: 3.6,
+    orbitRadius: 170,
+    orbitSpeed: 0.09,
+    initialAngle: 120,
+    gate: { to: 'gate-kessler-vanta', toll: 90, fuel: 55 }
+  }
+];
+
+// Star systems, joined by the gates in LOCATIONS. The first is home, where
+// every run starts. Primaries are the classic ones; a generated layout
+// swaps in its own.
+export const STAR_SYSTEMS: StarSystem[] = [
+  { id: 'terra-nv', name: "Terra Nova", primary: { name: "TERRA-NV", radius: 40, color: "#3b82f6" }, coords: { x: 140, y: 190 } },
+  { id: 'kessler', name: "Kessler Reach", primary: { name: "KESSLER", radius: 34, color: "#f59e0b" }, coords: { x: 310, y: 110 } },
+  { id: 'vanta', name: "Vanta Drift", primary: { name: "VANTA", radius: 28, color: "#a855f7" }, coords: { x: 470, y: 220 } }
+];
+
+// --- SYSTEM GENERATOR TABLES ---
+
+export const PRIMARY_NAMES = ["TERRA", "KEPLER", "VESTA", "OBERON", "HALCYON", "TETHYS", "ARGO", "CASSIA", "MERIDIAN", "SOLACE"];
+export const PRIMARY_COLORS = ["#3b82f6", "#f59e0b", "#10b981", "#a855f7", "#ef4444", "#14b8a6"];
+
+export const MOON_NAMES = ["Vesper", "Hollow Creek", "Saltmarsh", "Corvid", "Ember Flats", "Pale Harbor", "Gantry", "Thule", "Marrow", "Lantern", "Quarry Nine", "Styx", "Juniper", "Anvil"];
+export const MOON_COLORS = ["#22c55e", "#94a3b8", "#ef4444", "#06b6d4", "#eab308", "#a3e635", "#fb7185", "#c084fc"];
+
+// Flavour for generated moons by who holds them. Factions without an entry
+// (from content packs, say) use the neutral lines.
+export const MOON_FLAVOUR: Record<Faction, string[]> = {
+  [Faction.X33]: ["Garrisoned relay outpost.", "Hydroponic colony under Liberty flag.", "Naval fuel cache, strictly run."],
+  [Faction.X63]: ["Company town over a lithium seam.", "Bonded warehouse moon.", "Refinery leased by the Exchange."],
+  [Faction.X99]: ["Salvage yard and worse.", "Unlicensed ice mine.", "Drop point nobody admits to running."],
+  [Faction.NEUTRAL]: ["Survey camp, half abandoned.", "Research station on a quiet rock.", "Hermit colony that trades with anyone."]
+};
+
+// Fuel price range [low, high] at a generated moon, by who runs the pump
+export const MOON_FUEL_PRICES: Record<Faction, [number, number]> = {
+  [Faction.X33]: [2.3, 2.7],
+  [Faction.X63]: [2.6, 3.2],
+  [Faction.X99]: [3.5, 4.5],
+  [Faction.NEUTRAL]: [4.5, 5.5]
+};
+
+export const STATION_NAMES = ["Halo Dock", "Meridian Ring", "Caravel", "Port Adder", "Tollhouse", "Keystone", "Cinder Yard", "Beacon Twelve", "Wayfarer", "Sable Spire"];
+export const STATION_COLORS = ["#38bdf8", "#f472b6", "#fb923c", "#a78bfa", "#facc15", "#2dd4bf"];
+
+export const STATION_FLAVOUR: Record<Faction, string[]> = {
+  [Faction.X33]: ["Naval depot, inspections at the airlock.", "Liberty picket station, all regulation.", "Fleet tender turned trading post."],
+  [Faction.X63]: ["Exchange branch office and bonded docks.", "Brokers' ring, open every shift.", "Freight hub run on commission."],
+  [Faction.X99]: ["Hulks lashed together into a market.", "Pirate-friendly dock, cash only.", "Rust bucket with a bar and no questions."],
+  [Faction.NEUTRAL]: ["Independent waystation.", "Co-op dock that charges everyone the same.", "Old survey tender, now a trading post."]
+};
+
+// Stations buy fuel wholesale, so they undercut any moon
+export const STATION_FUEL_PRICES: Record<Faction, [number, number]> = {
+  [Faction.X33]: [1.0, 1.3],
+  [Faction.X63]: [0.8, 1.1],
+  [Faction.X99]: [0.5, 0.8],
+  [Faction.NEUTRAL]: [1.2, 1.6]
+};
+
+// [low, high] ranges for a generated market line. Moons produce one good
+// and need a couple of others; stations deal in a little of everything.
+export const GENERATED_MARKETS: Record<'producer' | 'consumer' | 'exchange', { equilibrium: [number, number]; bias: [number, number] }> = {
+  producer: { equilibrium: [100, 160], bias: [0.5, 0.65] },
+  consumer: { equilibrium: [15, 40], bias: [1.1, 1.5] },
+  exchange: { equilibrium: [25, 60], bias: [0.9, 1.3] }
+};
+
+export const CONTRACT_TEMPLATES: ContractTemplate[] = [
+  { title: "Diplomatic Envoy", basePay: 400, desc: "Transport VIPs silently.", cargo: 2, minTier: 'trusted' },
+  { title: "Mining Equipment", basePay: 250, desc: "Heavy machinery, watch fuel.", cargo: 12 },
+  { title: "Perishable Food", basePay: 300, desc: "Rush delivery required.", cargo: 6 },
+  { title: "Unmarked Crates", basePay: 600, desc: "Don't ask questions.", risk: 'HIGH', cargo: 4 },
+  { title: "Refugee Transport", basePay: 150, desc: "Low pay, moral boost.", cargo: 8 },
+  { title: "Spare Parts", basePay: 200, desc: "Routine maintenance run.", cargo: 3 },
+  // Reputation-locked work
+  { title: "Sealed Dispatch", basePay: 750, desc: "Eyes only. Liberty Command thanks you.", cargo: 1, faction: Faction.X33, minTier: 'allied', secret: true },
+  { title: "Bazaar Consignment", basePay: 550, desc: "Rare stock for a trusted broker.", cargo: 5, faction: Faction.X63, minTier: 'trusted', secret: true },
+  { title: "Smuggler's Run", basePay: 900, desc: "The Fringe looks after its own.", cargo: 4, faction: Faction.X99, minTier: 'trusted', secret: true },
+];
+export const COMMODITIES: Commodity[] = [
+  { id: 'ice', name: "Water Ice", basePrice: 12 },
+  { id: 'ore', name: "Iridium Ore", basePrice: 20 },
+  { id: 'produce', name: "Dome Produce", basePrice: 15 },
+  { id: 'luxury', name: "Luxury Goods", basePrice: 45 },
+  { id: 'contraband', name: "Contraband", basePrice: 60, illegal: true },
+];
+
+// Which goods each location trades. Producers sit on deep, cheap stock;
+// consumers keep little and pay over the odds. X-33 space does not
+// openly trade contraband.
+export const MARKETS: Record<string, Partial<Record<CommodityId, MarketProfile>>> = {
+  'station-x33': {
+    ice: { equilibrium: 40, bias: 1.2 },
+    ore: { equilibrium: 50, bias: 1.1 },
+    produce: { equilibrium: 40, bias: 1.2 },
+    luxury: { equilibrium: 20, bias: 1.3 }
+  },
+  'station-x63': {
+    ice: { equilibrium: 60, bias: 1.0 },
+    ore: { equilibrium: 60, bias: 1.0 },
+    produce: { equilibrium: 60, bias: 1.0 },
+    luxury: { equilibrium: 40, bias: 1.1 },
+    contraband: { equilibrium: 15, bias: 1.3 }
+  },
+  'station-x99': {
+    ice: { equilibrium: 30, bias: 1.3 },
+    ore: { equilibrium: 40, bias: 1.1 },
+    produce: { equilibrium: 25, bias: 1.4 },
+    luxury: { equilibrium: 10, bias: 1.0 },
+    contraband: { equilibrium: 60, bias: 0.9 }
+  },
+  'moon-liberty1': {
+    produce: { equilibrium: 150, bias: 0.55 },
+    ice: { equilibrium: 30, bias: 1.3 },
+    ore: { equilibrium: 25, bias: 1.2 }
+  },
+  'moon-atlas7': {
+    ore: { equilibrium: 150, bias: 0.55 },
+    produce: { equilibrium: 25, bias: 1.4 },
+    ice: { equilibrium: 30, bias: 1.2 },
+    luxury: { equilibrium: 10, bias: 1.2 }
+  },
+  'moon-bloodrust': {
+    contraband: { equilibrium: 120, bias: 0.55 },
+    luxury: { equilibrium: 10, bias: 1.4 },
+    produce: { equilibrium: 20, bias: 1.5 },
+    ore: { equilibrium: 30, bias: 1.0 }
+  },
+  'moon-cryo9': {
+    ice: { equilibrium: 160, bias: 0.5 },
+    produce: { equilibrium: 25, bias: 1.3 },
+    ore: { equilibrium: 30, bias: 1.1 }
+  },
+  'moon-glimmer': {
+    luxury: { equilibrium: 120, bias: 0.6 },
+    produce: { equilibrium: 30, bias: 1.5 },
+    ice: { equilibrium: 30, bias: 1.4 },
+    contraband: { equilibrium: 20, bias: 1.6 }
+  },
+  'station-kessler': {
+    ice: { equilibrium: 50, bias: 1.1 },
+    ore: { equilibrium: 90, bias: 0.8 },
+    produce: { equilibrium: 40, bias: 1.2 },
+    luxury: { equilibrium: 30, bias: 1.1 },
+    contraband: { equilibrium: 10, bias: 1.4 }
+  },
+  'moon-foundry': {
+    ore: { equilibrium: 160, bias: 0.5 },
+    ice: { equilibrium: 25, bias: 1.3 },
+    produce: { equilibrium: 20, bias: 1.4 }
+  },
+  'moon-picket': {
+    produce: { equilibrium: 20, bias: 1.5 },
+    ice: { equilibrium: 40, bias: 1.1 },
+    ore: { equilibrium: 20, bias: 1.3 }
+  },
+  'station-vanta': {
+    contraband: { equilibrium: 80, bias: 0.8 },
+    ice: { equilibrium: 25, bias: 1.3 },
+    ore: { equilibrium: 30, bias: 1.2 },
+    produce: { equilibrium: 20, bias: 1.5 },
+    luxury: { equilibrium: 15, bias: 1.2 }
+  },
+  'moon-wreckyard': {
+    ore: { equilibrium: 100, bias: 0.6 },
+    contraband: { equilibrium: 60, bias: 0.7 },
+    produce: { equilibrium: 15, bias: 1.6 }
+  },
+  'moon-lighthouse': {
+    luxury: { equilibrium: 20, bias: 1.5 },
+    produce: { equilibrium: 25, bias: 1.5 },
+    ice: { equilibrium: 20, bias: 1.5 },
+    contraband: { equilibrium: 20, bias: 1.3 }
+  }
+};
+
+// Mid-flight incidents. Any event whose trigger matches can come up; the
+// flight holds until the player picks a choice.
+export const FLIGHT_EVENTS: FlightEvent[] = [
+  {
+    id: 'micrometeors',
+    title: "Micrometeor Swarm",
+    text: "Proximity alarms. A sleet of grit is crossing the lane ahead.",
+    weight: 4,
+    trigger: {},
+    choices: [
+      { label: "Brace and ride it out", success: { text: "Pitted plating, nothing worse.", hull: -5 } },
+      {
+        label: "Burn hard to evade",
+        chance: 0.7,
+        success: { text: "Clean evasion. Tanks a little lighter.", fuel: -15 },
+        failure: { text: "Burned fuel and still got clipped.", fuel: -15, hull: -4 }
+      }
+    ]
+  },
+  {
+    id: 'distress-call',
+    title: "Distress Call",
+    text: "A weak beacon: life support failing on a drifting hauler.",
+    weight: 2,
+    trigger: {},
+    choices: [
+      {
+        label: "Answer the call",
+        chance: 0.65,
+        success: { text: "Crew rescued. Their owners wire a reward.", credits: 80, reputation: 4, fuel: -10 },
+        failure: { text: "It was bait. Took fire breaking away.", hull: -12, fuel: -10 }
+      },
+      { label: "Log it and fly on", success: { text: "Beacon logged. Word gets around.", reputation: -2 } }
+    ]
+  },
+  {
+    id: 'solar-flare',
+    title: "Solar Flare",
+    text: "The local primary is flaring. Radiation front inbound.",
+    weight: 2,
+    trigger: {},
+    choices: [
+      { label: "Shelter behind the hull", success: { text: "Rode out the front. Plating scorched.", hull: -8 } },
+      { label: "Divert power to shields", success: { text: "Shields held. Reactor drank deep.", fuel: -20 } }
+    ]
+  },
+  {
+    id: 'customs-patrol',
+    title: "Customs Patrol",
+    text: "A cutter hails: heave to for cargo inspection.",
+    weight: 3,
+    trigger: { factions: [Faction.X33, Faction.X63], cargo: 'contraband' },
+    choices: [
+      { label: "Submit to inspection", success: { text: "Contraband seized. Noted on your record.", confiscate: true, reputation: -5 } },
+      {
+        label: "Offer a bribe",
+        cost: 75,
+        chance: 0.6,
+        success: { text: "The inspector pockets it and waves you through.", credits: -75 },
+        failure: { text: "Bribe refused. Cargo seized, record flagged.", credits: -75, confiscate: true, reputation: -10 }
+      },
+      {
+        label: "Run for it",
+        chance: 0.5,
+        success: { text: "Lost them in the planet's glare.", fuel: -25 },
+        failure: { text: "Disabled and boarded. Everything illicit is gone.", fuel: -25, hull: -15, confiscate: true, reputation: -8 }
+      }
+    ]
+  },
+  {
+    id: 'engine-fault',
+    title: "Engine Fault",
+    text: "Drive harmonics are off. Something in the battered frame has shaken loose.",
+    weight: 3,
+    trigger: { hullBelow: 60 },
+    choices: [
+      {
+        label: "Patch it in flight",
+        chance: 0.5,
+        success: { text: "The patch is holding." },
+        failure: { text: "Patch failed. The drive bucked hard.", hull: -10 }
+      },
+      { label: "Vent and restart", success: { text: "Cold restart. Lost a lot of fuel doing it.", fuel: -30 } }
+    ]
+  },
+  {
+    id: 'fuel-leak',
+    title: "Fuel Line Leak",
+    text: "Tank pressure dropping. A seam is weeping propellant.",
+    weight: 2,
+    trigger: { fuelBelow: 40 },
+    choices: [
+      { label: "Seal it from inside", success: { text: "Sealed, after losing a few litres.", fuel: -8 } },
+      {
+        label: "EVA repair",
+        chance: 0.8,
+        success: { text: "Clean weld. No loss." },
+        failure: { text: "Suit snagged; hull scraped in the scramble.", fuel: -8, hull: -5 }
+      }
+    ]
+  },
+  {
+    id: 'loose-ore',
+    title: "Shifting Load",
+    text: "The ore in the hold has broken its lashings and is grinding the bulkheads.",
+    weight: 2,
+    trigger: { cargo: 'ore' },
+    choices: [
+      { label: "Re-secure it", success: { text: "Lashed down again. Some bulkhead damage.", hull: -4 } },
+      { label: "Dump the ore", success: { text: "Ore jettisoned.", jettison: 'ore' } }
+    ]
+  },
+  {
+    id: 'hot-cargo',
+    title: "Crate Alarm",
+    text: "One of the high-risk crates is ticking. Literally.",
+    weight: 1,
+    trigger: { minRisk: 'HIGH' },
+    choices: [
+      {
+        label: "Leave it be",
+        chance: 0.7,
+        success: { text: "It stopped. Best not to ask." },
+        failure: { text: "Small detonation in the hold.", hull: -15 }
+      },
+      { label: "Insulate the bay", success: { text: "Bay sealed off with the spare power.", fuel: -15 } }
+    ]
+  }
+];
+
+// The weekly station calendar, shown to the player ahead of time
+export const STATION_EVENTS: StationEvent[] = [
+  {
+    id: 'bazaar-market-day',
+    name: "Market Day",
+    locationId: 'station-x63',
+    weekday: 2,
+    effect: 'market-day',
+    desc: "Traders flood the Bazaar. Spreads narrow to almost nothing."
+  },
+  {
+    id: 'liberty-inspection',
+    name: "Customs Inspection",
+    locationId: 'station-x33',
+    weekday: 4,
+    effect: 'inspection',
+    desc: "Every arriving hold is searched. Contraband is seized."
   }
 ];
 
-export const CONTRACT_TEMPLATES = [
-  { title: "Diplomatic Envoy", basePay: 400, desc: "Transport VIPs silently." },
-  { title: "Mining Equipment", basePay: 250, desc: "Heavy machinery, watch fuel." },
-  { title: "Perishable Food", basePay: 300, desc: "Rush delivery required." },
-  { title: "Unmarked Crates", basePay: 600, desc: "Don't ask questions.", risk: 'HIGH' },
-  { title: "Refugee Transport", basePay: 150, desc: "Low pay, moral boost." },
-  { title: "Spare Parts", basePay: 200, desc: "Routine maintenance run." },
-];
\ No newline at end of file
+// Story campaigns, one per faction. Steps are handed out at the giver's
+// station once standing allows; how a debrief is answered picks the next.
+export const CAMPAIGNS: Campaign[] = [
+  {
+    id: 'liberty',
+    name: "The Long Watch",
+    faction: Faction.X33,
+    giverId: 'station-x33',
+    firstStep: 'liberty-cold-storage',
+    steps: [
+      {
+        id: 'liberty-cold-storage',
+        title: "Cold Storage",
+        minRep: 40,
+        briefing: "Captain Halloran, Liberty Command. Cryo-9's infirmary is out of serum and the regular tender's laid up. Two crates, two days. Don't dawdle, runner.",
+        objective: { destinationId: 'moon-cryo9', cargo: 2, days: 2, risk: 'LOW' },
+        pay: 220,
+        debrief: "The foreman signs for the serum, then pulls you aside. Somebody's been cutting the ice lines at night. He'd rather Command didn't hear about it.",
+        branches: [
+          { label: "Report it to Halloran", reply: "Command logs the report. Halloran wants to see you again.", next: 'liberty-patrol-manifest', reputation: { [Faction.X33]: 5 } },
+          { label: "Take his hush money", reply: "Fifty in an envelope, and a hundred more. Halloran will hear anyway.", next: 'liberty-patrol-manifest', credits: 150, reputation: { [Faction.X33]: -5 } }
+        ],
+        failure: { text: "The serum spoiled in your hold. Command won't be calling again." }
+      },
+      {
+        id: 'liberty-patrol-manifest',
+        title: "Patrol Manifest",
+        minRep: 50,
+        briefing: "The Cryo-9 business has Command jumpy. New Kansas needs fresh patrol orders, sealed, before the week's out. These don't go over the radio.",
+        objective: { destinationId: 'moon-liberty1', cargo: 1, days: 2, risk: 'MED' },
+        pay: 320,
+        debrief: "The garrison reads the orders twice. Halloran radios in: the saboteurs run out of Blood Rust, and Command wants a civilian hull to carry something there.",
+        branches: [
+          { label: "Volunteer", reply: "Halloran says you're a patriot. Report to Liberty when you're ready.", next: 'liberty-red-dust' },
+          { label: "Turn it down", reply: "Halloran doesn't argue. The Long Watch goes on without you." }
+        ],
+        failure: { text: "The patrol orders never arrived. Halloran has found another runner." }
+      },
+      {
+        id: 'liberty-red-dust',
+        title: "Operation Red Dust",
+        minRep: 65,
+        briefing: "Three crates of demolition charges, marked machine parts. Land them at Blood Rust and the Corps does the rest. Keep your mouth shut and your hold sealed.",
+        objective: { destinationId: 'moon-bloodrust', cargo: 3, days: 3, risk: 'HIGH' },
+        pay: 600,
+        debrief: "You're down in the red dust with the charges. A Fringe quartermaster eyes the crates and names a price that would make Halloran weep.",
+        branches: [
+          { label: "Set the charges", reply: "The ice-line raiders lose their depot. Liberty won't forget it. Neither will the Fringe.", credits: 300, reputation: { [Faction.X33]: 15, [Faction.X99]: -20 } },
+          { label: "Sell the charges", reply: "The quartermaster pays cash. Halloran posts your picture at every Liberty dock.", credits: 500, reputation: { [Faction.X99]: 15, [Faction.X33]: -25 } }
+        ],
+        failure: { text: "Operation Red Dust is scrubbed. Command has questions about what happened to the charges." }
+      }
+    ]
+  },
+  {
+    id: 'bazaar',
+    name: "A Seat at the Table",
+    faction: Faction.X63,
+    giverId: 'station-x63',
+    firstStep: 'bazaar-sample-case',
+    steps: [
+      {
+        id: 'bazaar-sample-case',
+        title: "Sample Case",
+        minRep: 30,
+        briefing: "Madame Oyelaran, Exchange House. Glimmer's guests pay anything for novelty. Take them my samples and remind them who sells the good stuff.",
+        objective: { destinationId: 'moon-glimmer', cargo: 2, days: 2, risk: 'LOW' },
+        pay: 200,
+        debrief: "The resort's buyer loves the samples, and offers you a private arrangement on the side.",
+        branches: [
+          { label: "Talk up the Bazaar", reply: "Oyelaran hears you sold her name, not your own. She has more work.", next: 'bazaar-ore-corner', reputation: { [Faction.X63]: 5 } },
+          { label: "Cut your own deal", reply: "A tidy commission. Oyelaran's smile is a little thinner next time.", next: 'bazaar-ore-corner', credits: 120, reputation: { [Faction.X63]: -3 } }
+        ],
+        failure: { text: "The samples never reached Glimmer. The Exchange House has other runners." }
+      },
+      {
+        id: 'bazaar-ore-corner',
+        title: "Ore Corner",
+        minRep: 45,
+        briefing: "Atlas-7's iridium is the richest in the system. Deliver my buy orders to the mine boss by tomorrow, before Liberty's buyers wake up.",
+        objective: { destinationId: 'moon-atlas7', cargo: 1, days: 1, risk: 'MED' },
+        pay: 350,
+        debrief: "The mine boss reads Oyelaran's terms and goes pale. It's a corner on the whole ore market. His owners would pay well to hear about it first.",
+        branches: [
+          { label: "Close the deal", reply: "The orders are signed. Oyelaran needs the paper in Liberty's registry.", next: 'bazaar-the-corner', reputation: { [Faction.X63]: 5 } },
+          { label: "Tip off the owners", reply: "The corner collapses. The owners pay; the Bazaar remembers.", credits: 400, reputation: { [Faction.X63]: -15 } }
+        ],
+        failure: { text: "Liberty's buyers got there first. The corner is off." }
+      },
+      {
+        id: 'bazaar-the-corner',
+        title: "The Corner",
+        minRep: 55,
+        briefing: "Forged registry papers for the ore claims. Liberty customs would call it fraud. I call it paperwork. Get it filed at X-33, and mind their inspection days.",
+        objective: { destinationId: 'station-x33', cargo: 1, days: 2, risk: 'HIGH', contraband: true },
+        pay: 700,
+        debrief: "The clerk stamps the claims without reading them. Before you leave, a Liberty auditor asks for a word.",
+        branches: [
+          { label: "Say nothing", reply: "The Bazaar owns Atlas ore for a generation. Oyelaran keeps a chair for you.", credits: 400, reputation: { [Faction.X63]: 10 } },
+          { label: "Cut Liberty in", reply: "The auditor takes a share and Liberty takes notice. Oyelaran takes it personally.", credits: 250, reputation: { [Faction.X33]: 10, [Faction.X63]: -10 } }
+        ],
+        failure: { text: "The forged claims were seized. Oyelaran's lawyers are already calling it a misunderstanding." }
+      }
+    ]
+  },
+  {
+    id: 'fringe',
+    name: "Running Dark",
+    faction: Faction.X99,
+    giverId: 'station-x99',
+    firstStep: 'fringe-blood-rust-crates',
+    steps: [
+      {
+        id: 'fringe-blood-rust-crates',
+        title: "Crates for Blood Rust",
+        minRep: 20,
+        briefing: "Name's Dutch. You fly, I pay, nobody asks what's in the crates. Blood Rust, two days.",
+        objective: { destinationId: 'moon-bloodrust', cargo: 3, days: 2, risk: 'MED', contraband: true },
+        pay: 300,
+        debrief: "The crates are unloaded by men who don't look at you. Dutch radios: good work, and was the seal broken?",
+        branches: [
+          { label: "No questions asked", reply: "Dutch likes a runner who doesn't look. There's a bigger job.", next: 'fringe-past-the-bell', reputation: { [Faction.X99]: 5 } },
+          { label: "Admit you looked", reply: "Dutch laughs. Everyone looks once. Don't do it twice.", next: 'fringe-past-the-bell', credits: 80, reputation: { [Faction.X99]: -5 } }
+        ],
+        failure: { text: "Dutch's crates are gone. He won't say so, but you're off his list." }
+      },
+      {
+        id: 'fringe-past-the-bell',
+        title: "Past the Bell",
+        minRep: 30,
+        briefing: "New Kansas has a thirst Liberty won't slake. Four crates, through Liberty patrols, three days. If customs board you, you never met me.",
+        objective: { destinationId: 'moon-liberty1', cargo: 4, days: 3, risk: 'HIGH', contraband: true },
+        pay: 650,
+        debrief: "The dome's bootleggers pay Dutch in full. On the way out, a Liberty customs man offers you a reward for the route.",
+        branches: [
+          { label: "Stay with Dutch", reply: "Dutch has one more run. The big one.", next: 'fringe-big-score', reputation: { [Faction.X99]: 5 } },
+          { label: "Sell out the route", reply: "Liberty pays for the route and Dutch's pipeline goes dry. Watch the Fringe docks.", credits: 300, reputation: { [Faction.X33]: 20, [Faction.X99]: -30 } }
+        ],
+        failure: { text: "The crates went to Liberty's evidence locker. Dutch wants another try, and he wants it right.", next: 'fringe-past-the-bell' }
+      },
+      {
+        id: 'fringe-big-score',
+        title: "The Big Score",
+        minRep: 45,
+        briefing: "Glimmer's elite have refined tastes and no customs to speak of. Five crates of the finest. Two days. This one sets us both up.",
+        objective: { destinationId: 'moon-glimmer', cargo: 5, days: 2, risk: 'HIGH', contraband: true },
+        pay: 1200,
+        debrief: "The resort's back door opens and the money comes out in bricks. Dutch offers you a partnership.",
+        branches: [
+          { label: "Take your cut and go", reply: "Clean hands, full pockets. Dutch wishes you well, mostly.", credits: 400 },
+          { label: "Buy into the racket", reply: "Partners. The Fringe looks after its own.", reputation: { [Faction.X99]: 20 } }
+        ],
+        failure: { text: "The big score is gone. Dutch stops answering your calls." }
+      }
+    ]
+  }
+];
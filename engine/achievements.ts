@@ -0,0 +1,71 @@
+import { Faction, GameState, LocationType } from '../types';
+import { LOCATIONS, STAR_SYSTEMS } from '../constants';
+import { addLog, emitCue } from './log';
+import { getTotalDeliveries } from './stats';
+
+export interface Achievement {
+  id: string;
+  name: string;
+  desc: string;
+  earned: (state: GameState) => boolean;
+}
+
+const LONG_HAUL_AU = 5000;
+const NEST_EGG = 1000;
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-job',
+    name: "Paid in Full",
+    desc: "Deliver your first contract.",
+    earned: s => getTotalDeliveries(s.stats) > 0
+  },
+  {
+    id: 'every-moon',
+    name: "Moonlighter",
+    desc: "Deliver to every moon in the home system.",
+    earned: s => LOCATIONS.filter(l => l.type === LocationType.MOON && l.system === STAR_SYSTEMS[0].id).every(l => s.stats.deliveredTo.includes(l.id))
+  },
+  {
+    id: 'no-repairs',
+    name: "Never Saw a Wrench",
+    desc: `Reach ${NEST_EGG} CR without repairs.`,
+    earned: s => s.credits >= NEST_EGG && s.stats.repairs === 0
+  },
+  {
+    id: 'three-flags',
+    name: "Friend of All Flags",
+    desc: "Deliver for Liberty, the Bazaar and the Fringe.",
+    earned: s => [Faction.X33, Faction.X63, Faction.X99].every(f => s.stats.deliveries[f] > 0)
+  },
+  {
+    id: 'long-haul',
+    name: "Long Hauler",
+    desc: `Fly ${LONG_HAUL_AU} AU in one run.`,
+    earned: s => s.stats.distanceFlown >= LONG_HAUL_AU
+  },
+  {
+    id: 'close-call',
+    name: "Running on Fumes",
+    desc: "Dock with hull or fuel in the red.",
+    earned: s => s.stats.nearMisses > 0
+  },
+  {
+    id: 'campaign',
+    name: "Told the Tale",
+    desc: "See a faction campaign through.",
+    earned: s => Object.values(s.campaigns).some(p => p.status === 'complete')
+  }
+];
+
+// Award anything newly earned; runs after every step
+export const awardAchievements = (state: GameState): GameState => {
+  const fresh = ACHIEVEMENTS.filter(a => !state.achievements.includes(a.id) && a.earned(state));
+  if (fresh.length === 0) return state;
+
+  const awarded = fresh.reduce(
+    (next, a) => addLog(next, `ACHIEVEMENT: ${a.name.toUpperCase()}`, 'system'),
+    { ...state, achievements: [...state.achievements, ...fresh.map(a => a.id)] }
+  );
+  return emitCue(awarded, 'accept');
+};
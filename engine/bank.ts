@@ -0,0 +1,219 @@
+import { BankProfile, Faction, GameState, Loan, Location, LocationType } from '../types';
+import { BANKS, COMMODITIES, LOCATIONS } from '../constants';
+import { addLog, emitCue } from './log';
+import { Rng } from './rng';
+import { transact } from './ledger';
+import { adjustReputation, getRepTier, refuseService, servicesOpen, tierAtLeast } from './reputation';
+import { isJump } from './gates';
+
+const SAVINGS_RATE = 0.004; // Daily, paid in whole credits
+const MISSED_PAYMENT_REP = 10; // Standing a strict lender docks per missed instalment
+const NOTHING_TO_SEIZE_REP = 5;
+const COLLECTOR_CHANCE = 0.003; // Per tick in flight while a collecting lender is owed arrears
+
+export interface LoanOffer {
+  bank: BankProfile;
+  faction: Faction;
+  rate: number; // Today's daily rate
+  limit: number; // Most they'll lend right now; 0 when refused
+  refusal: string | null;
+}
+
+// Only stations keep a bank
+export const getBank = (location: Location | undefined): BankProfile | null => {
+  if (!location || location.type !== LocationType.STATION) return null;
+  return BANKS[location.faction] ?? null;
+};
+
+// Variable rates drift with the calendar; fixed-rate lenders ignore `day`
+export const getLoanRate = (bank: BankProfile, day: number) => {
+  return bank.rate + (bank.rateSwing ?? 0) * Math.sin(day * 0.9);
+};
+
+// Flat instalments that would clear `amount` over the term at `day`'s rate
+export const getInstalment = (bank: BankProfile, amount: number, day: number) => {
+  const payments = Math.ceil(bank.termDays / bank.paymentInterval);
+  return Math.ceil(amount * (1 + getLoanRate(bank, day) * bank.termDays) / payments);
+};
+
+export const getDebt = (state: GameState) => state.loans.reduce((sum, l) => sum + l.balance, 0);
+
+export const getLoan = (state: GameState, faction: Faction) => state.loans.find(l => l.faction === faction);
+
+export const getLoanOffer = (state: GameState, location: Location | undefined): LoanOffer | null => {
+  const bank = getBank(location);
+  if (!bank || !location) return null;
+
+  const refusal = getLoan(state, location.faction)
+    ? "LOAN OUTSTANDING"
+    : !tierAtLeast(getRepTier(state, location.faction), bank.minTier) ? `${bank.minTier.toUpperCase()} CLIENTS ONLY` : null;
+  return { bank, faction: location.faction, rate: getLoanRate(bank, state.day), limit: refusal ? 0 : bank.maxLoan, refusal };
+};
+
+// Write a loan back, dropping it once it's paid off
+const withLoan = (state: GameState, loan: Loan): GameState => {
+  if (loan.balance > 0) return { ...state, loans: state.loans.map(l => l.faction === loan.faction ? loan : l) };
+  const loans = state.loans.filter(l => l.faction !== loan.faction);
+  return emitCue(addLog({ ...state, loans }, `${BANKS[loan.faction]?.name.toUpperCase()}: LOAN CLEARED.`, 'trade'), 'accept');
+};
+
+// Knock `amount` off a loan, arrears first. Credits are the caller's business.
+export const settleLoan = (state: GameState, faction: Faction, amount: number): GameState => {
+  const loan = getLoan(state, faction);
+  if (!loan || amount <= 0) return state;
+  return withLoan(state, {
+    ...loan,
+    balance: Math.max(0, loan.balance - amount),
+    arrears: Math.max(0, loan.arrears - amount)
+  });
+};
+
+const getDockedBank = (state: GameState) => {
+  const location = LOCATIONS.find(l => l.id === state.currentLocationId);
+  return { location, bank: state.isFlying ? null : getBank(location) };
+};
+
+export const takeLoan = (state: GameState, amount: number): GameState => {
+  const { location, bank } = getDockedBank(state);
+  if (!bank || !location) return state;
+  if (!servicesOpen(state, location)) return refuseService(state);
+
+  const offer = getLoanOffer(state, location)!;
+  if (offer.refusal) return emitCue(addLog(state, `LOAN REFUSED: ${offer.refusal}.`, 'trade', 'warning'), 'error');
+  if (amount <= 0 || amount > offer.limit) return state;
+
+  const loan: Loan = {
+    faction: location.faction,
+    principal: amount,
+    balance: amount,
+    instalment: getInstalment(bank, amount, state.day),
+    nextDue: state.day + bank.paymentInterval,
+    arrears: 0,
+    missed: 0
+  };
+  const lent = transact({ ...state, loans: [...state.loans, loan] }, amount, 'finance', `LOAN FROM ${bank.name.toUpperCase()}`);
+  return emitCue(addLog(lent, `LOAN FROM ${bank.name.toUpperCase()}: +${amount} CR`, 'trade'), 'cash');
+};
+
+export const repayLoan = (state: GameState, amount: number): GameState => {
+  const { location, bank } = getDockedBank(state);
+  const loan = location && getLoan(state, location.faction);
+  if (!bank || !loan) return state;
+
+  const payment = Math.min(amount, loan.balance);
+  if (payment <= 0) return state;
+  if (state.credits < payment) {
+    return emitCue(addLog(state, "INSUFFICIENT FUNDS.", 'trade', 'warning'), 'error');
+  }
+
+  const paid = addLog(transact(state, -payment, 'finance', `LOAN REPAYMENT`), `REPAID ${payment} CR TO ${bank.name.toUpperCase()}.`, 'trade');
+  return emitCue(settleLoan(paid, loan.faction, payment), 'cash');
+};
+
+// Savings are one account, open at any bank that will serve you
+export const deposit = (state: GameState, amount: number): GameState => {
+  const { location, bank } = getDockedBank(state);
+  if (!bank) return state;
+  if (!servicesOpen(state, location)) return refuseService(state);
+
+  const sum = Math.min(amount, state.credits);
+  if (sum <= 0) return state;
+  const banked = transact({ ...state, savings: state.savings + sum }, -sum, 'finance', "SAVINGS DEPOSIT");
+  return emitCue(addLog(banked, `DEPOSITED ${sum} CR.`, 'trade'), 'cash');
+};
+
+export const withdraw = (state: GameState, amount: number): GameState => {
+  const { location, bank } = getDockedBank(state);
+  if (!bank) return state;
+  if (!servicesOpen(state, location)) return refuseService(state);
+
+  const sum = Math.min(amount, state.savings);
+  if (sum <= 0) return state;
+  const drawn = transact({ ...state, savings: state.savings - sum }, sum, 'finance', "SAVINGS WITHDRAWAL");
+  return emitCue(addLog(drawn, `WITHDREW ${sum} CR.`, 'trade'), 'cash');
+};
+
+// Bailiffs empty the savings account first, then take goods from the hold
+// at list price, until the arrears are covered
+const seizeAssets = (state: GameState, loan: Loan, bank: BankProfile): GameState => {
+  let owed = loan.arrears;
+  const fromSavings = Math.min(state.savings, owed);
+  owed -= fromSavings;
+
+  const cargoGoods = { ...state.cargoGoods };
+  let fromGoods = 0;
+  COMMODITIES.forEach(c => {
+    const held = cargoGoods[c.id] ?? 0;
+    if (owed <= 0 || held <= 0) return;
+    const units = Math.min(held, Math.ceil(owed / c.basePrice));
+    cargoGoods[c.id] = held - units;
+    fromGoods += units * c.basePrice;
+    owed -= units * c.basePrice;
+  });
+
+  const name = bank.name.toUpperCase();
+  const seized = fromSavings + Math.min(fromGoods, loan.arrears - fromSavings);
+  if (seized <= 0) {
+    const shamed = adjustReputation(state, loan.faction, -NOTHING_TO_SEIZE_REP);
+    return emitCue(addLog(shamed, `${name}: INSTALMENT MISSED. NOTHING TO SEIZE. STANDING -${NOTHING_TO_SEIZE_REP}`, 'trade', 'critical'), 'alert');
+  }
+
+  const stripped = { ...state, savings: state.savings - fromSavings, cargoGoods };
+  return emitCue(addLog(settleLoan(stripped, loan.faction, seized), `${name}: BAILIFFS SEIZED ${seized} CR IN ASSETS.`, 'trade', 'critical'), 'alert');
+};
+
+const collectArrears = (state: GameState, loan: Loan, bank: BankProfile): GameState => {
+  const name = bank.name.toUpperCase();
+  switch (bank.collection) {
+    case 'reputation': {
+      const marked = adjustReputation(state, loan.faction, -MISSED_PAYMENT_REP);
+      return emitCue(addLog(marked, `${name}: INSTALMENT MISSED. STANDING -${MISSED_PAYMENT_REP}`, 'trade', 'critical'), 'alert');
+    }
+    case 'seizure':
+      return seizeAssets(state, loan, bank);
+    case 'collectors':
+      return emitCue(addLog(state, `${name}: INSTALMENT MISSED. COLLECTORS DISPATCHED.`, 'combat', 'critical'), 'alert');
+    default:
+      return state;
+  }
+};
+
+// Overnight: charge a day's interest, and take the instalment if it's due
+const serviceLoan = (state: GameState, loan: Loan): GameState => {
+  const bank = BANKS[loan.faction];
+  if (!bank) return state;
+
+  const balance = loan.balance + Math.ceil(loan.balance * getLoanRate(bank, state.day));
+  if (state.day < loan.nextDue) return withLoan(state, { ...loan, balance });
+
+  const owed = Math.min(balance, loan.instalment + loan.arrears);
+  const scheduled = { ...loan, balance, nextDue: loan.nextDue + bank.paymentInterval };
+  if (state.credits >= owed) {
+    const debited = transact(state, -owed, 'finance', "LOAN INSTALMENT", { faction: loan.faction });
+    const paid = addLog(debited, `${bank.name.toUpperCase()}: INSTALMENT -${owed} CR`, 'trade');
+    return withLoan(paid, { ...scheduled, balance: balance - owed, arrears: 0 });
+  }
+
+  const missed = { ...scheduled, arrears: owed, missed: loan.missed + 1 };
+  return collectArrears(withLoan(state, missed), missed, bank);
+};
+
+// Part of the midnight rollover, after the day counter has moved on
+export const serviceBanks = (state: GameState): GameState => {
+  const interest = Math.floor(state.savings * SAVINGS_RATE);
+  const saved = interest > 0 ? { ...state, savings: state.savings + interest } : state;
+  return state.loans.reduce(serviceLoan, saved);
+};
+
+// A lender that sends collectors finds you in flight sooner or later,
+// though not mid-jump
+export const rollCollectors = (state: GameState, rng: Rng): GameState => {
+  if (!state.isFlying || isJump(state.flightPlan) || state.pendingEvent || state.encounter) return state;
+  const hunted = state.loans.find(l => l.arrears > 0 && BANKS[l.faction]?.collection === 'collectors');
+  if (!hunted || !rng.chance(COLLECTOR_CHANCE)) return state;
+
+  const ships = Math.min(3, hunted.missed);
+  const bearings = Array.from({ length: ships }, () => rng.int(360));
+  const encounter = { ships, tribute: hunted.arrears, bearings, collector: hunted.faction };
+  return emitCue(addLog({ ...state, encounter }, "ALERT: DEBT COLLECTORS ON INTERCEPT.", 'combat', 'warning'), 'alert');
+};
@@ -0,0 +1,85 @@
+import { GameState, StationEvent } from '../types';
+import { LOCATIONS, STATION_EVENTS } from '../constants';
+import { hasContraband, seizeContraband } from './contracts';
+import { addLog, emitCue } from './log';
+import { adjustReputation } from './reputation';
+
+export const TICKS_PER_HOUR = 500;
+export const HOURS_PER_DAY = 24;
+export const TICKS_PER_DAY = TICKS_PER_HOUR * HOURS_PER_DAY;
+export const DAYS_PER_WEEK = 7;
+const WEEKDAY_NAMES = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+
+const INSPECTION_REP_PENALTY = 5;
+
+export interface CalendarTime {
+  day: number; // 1-based
+  hour: number;
+  minute: number;
+  weekday: number; // 0-based, into WEEKDAY_NAMES
+}
+
+export interface ScheduledStationEvent {
+  event: StationEvent;
+  startsAt: number; // Tick the day begins
+  active: boolean; // Running right now
+}
+
+export const getCalendar = (time: number): CalendarTime => {
+  const dayIndex = Math.floor(time / TICKS_PER_DAY);
+  const intoDay = time - dayIndex * TICKS_PER_DAY;
+  return {
+    day: dayIndex + 1,
+    hour: Math.floor(intoDay / TICKS_PER_HOUR),
+    minute: Math.floor((intoDay % TICKS_PER_HOUR) * 60 / TICKS_PER_HOUR),
+    weekday: dayIndex % DAYS_PER_WEEK
+  };
+};
+
+export const getWeekdayName = (weekday: number) => WEEKDAY_NAMES[weekday];
+
+// e.g. "DAY 3 WED 14:05"
+export const formatClock = (time: number) => {
+  const { day, hour, minute, weekday } = getCalendar(time);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `DAY ${day} ${WEEKDAY_NAMES[weekday]} ${pad(hour)}:${pad(minute)}`;
+};
+
+// e.g. "2D 4H", for countdowns
+export const formatDuration = (ticks: number) => {
+  const days = Math.floor(ticks / TICKS_PER_DAY);
+  const hours = Math.floor((ticks % TICKS_PER_DAY) / TICKS_PER_HOUR);
+  return days > 0 ? `${days}D ${hours}H` : `${hours}H`;
+};
+
+// --- STATION EVENTS ---
+
+export const getStationEvent = (locationId: string, time: number): StationEvent | undefined => {
+  const { weekday } = getCalendar(time);
+  return STATION_EVENTS.find(e => e.locationId === locationId && e.weekday === weekday);
+};
+
+// Each station event's current or next occurrence, soonest first
+export const getStationSchedule = (time: number): ScheduledStationEvent[] => {
+  const dayIndex = Math.floor(time / TICKS_PER_DAY);
+  const weekday = dayIndex % DAYS_PER_WEEK;
+  return STATION_EVENTS
+    .map(event => {
+      const daysAhead = (event.weekday - weekday + DAYS_PER_WEEK) % DAYS_PER_WEEK;
+      return { event, startsAt: (dayIndex + daysAhead) * TICKS_PER_DAY, active: daysAhead === 0 };
+    })
+    .sort((a, b) => a.startsAt - b.startsAt);
+};
+
+// Inspection days search every hold that docks
+export const inspectOnArrival = (state: GameState, locationId: string): GameState => {
+  const event = getStationEvent(locationId, state.gameTime);
+  const station = LOCATIONS.find(l => l.id === locationId);
+  if (event?.effect !== 'inspection' || !station) return state;
+
+  if (!hasContraband(state, station.faction)) {
+    return addLog(state, `${event.name.toUpperCase()}: HOLD CLEAN.`, 'trade');
+  }
+  const seized = adjustReputation(seizeContraband(state, station.faction), station.faction, -INSPECTION_REP_PENALTY);
+  return emitCue(addLog(seized, `${event.name.toUpperCase()}: CONTRABAND SEIZED. REP -${INSPECTION_REP_PENALTY}`, 'trade', 'critical'), 'alert');
+};
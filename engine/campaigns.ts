@@ -0,0 +1,127 @@
+import { Campaign, CampaignProgress, Contract, Faction, GameState, Location, MissionStep } from '../types';
+import { CAMPAIGNS, LOCATIONS } from '../constants';
+import { addLog, emitCue } from './log';
+import { TICKS_PER_DAY } from './calendar';
+import { getHoldSpace } from './contracts';
+import { transact } from './ledger';
+import { adjustReputation, refuseService, servicesOpen } from './reputation';
+
+export interface MissionOffer {
+  campaign: Campaign;
+  step: MissionStep;
+  locked: boolean; // Standing not high enough yet
+}
+
+export const getCampaign = (id: string | undefined) => CAMPAIGNS.find(c => c.id === id);
+
+export const getStep = (campaign: Campaign | undefined, stepId: string | undefined) => {
+  return campaign?.steps.find(s => s.id === stepId);
+};
+
+// Every campaign starts on offer at its first step
+export const createCampaignProgress = (): Record<string, CampaignProgress> => {
+  return Object.fromEntries(CAMPAIGNS.map(c => [c.id, { stepId: c.firstStep, status: 'offered' as const }]));
+};
+
+// Steps waiting at this station, including ones our standing doesn't reach yet
+export const getMissionOffers = (state: GameState, location: Location | undefined): MissionOffer[] => {
+  if (!location) return [];
+  return CAMPAIGNS.flatMap(campaign => {
+    const progress = state.campaigns[campaign.id];
+    const step = getStep(campaign, progress?.stepId);
+    if (campaign.giverId !== location.id || progress?.status !== 'offered' || !step) return [];
+    return [{ campaign, step, locked: state.reputation[campaign.faction] < step.minRep }];
+  });
+};
+
+// The campaign awaiting a debrief, if any; the UI puts it on screen
+export const getPendingDebrief = (state: GameState) => {
+  const campaign = CAMPAIGNS.find(c => state.campaigns[c.id]?.status === 'debrief');
+  const step = getStep(campaign, campaign && state.campaigns[campaign.id].stepId);
+  return campaign && step ? { campaign, step } : null;
+};
+
+const setProgress = (state: GameState, campaignId: string, progress: CampaignProgress): GameState => {
+  return { ...state, campaigns: { ...state.campaigns, [campaignId]: progress } };
+};
+
+// Move on to `next`, or close the campaign out with `ending`
+const advanceTo = (state: GameState, campaign: Campaign, next: string | undefined, ending: 'complete' | 'failed'): GameState => {
+  if (next && getStep(campaign, next)) return setProgress(state, campaign.id, { stepId: next, status: 'offered' });
+  const last = state.campaigns[campaign.id].stepId;
+  return setProgress(state, campaign.id, { stepId: last, status: ending });
+};
+
+const createMissionContract = (state: GameState, campaign: Campaign, step: MissionStep): Contract => {
+  const { objective } = step;
+  const deadline = (state.day + objective.days - 1) * TICKS_PER_DAY;
+  return {
+    id: `msn-${step.id}-${state.gameTime}`,
+    title: step.title,
+    description: campaign.name,
+    destinationId: objective.destinationId,
+    pay: step.pay,
+    deadline,
+    failsAt: deadline, // No grace: the campaign doesn't wait
+    expiresAt: state.gameTime,
+    riskLevel: objective.risk,
+    faction: campaign.faction,
+    cargoSize: objective.cargo,
+    secret: objective.contraband,
+    mission: step.id
+  };
+};
+
+export const acceptMission = (state: GameState, campaignId: string): GameState => {
+  const location = LOCATIONS.find(l => l.id === state.currentLocationId);
+  const offer = getMissionOffers(state, state.isFlying ? undefined : location).find(o => o.campaign.id === campaignId);
+  if (!offer || offer.locked) return state;
+  if (!servicesOpen(state, location)) return refuseService(state);
+
+  const { campaign, step } = offer;
+  if (step.objective.cargo > getHoldSpace(state)) {
+    return emitCue(addLog(state, "ERROR: CARGO EXCEEDS HOLD SPACE.", 'trade', 'warning'), 'error');
+  }
+
+  const started = {
+    ...state,
+    activeContracts: [...state.activeContracts, createMissionContract(state, campaign, step)]
+  };
+  return emitCue(addLog(setProgress(started, campaign.id, { stepId: step.id, status: 'active' }), `MISSION ACCEPTED: ${step.title.toUpperCase()}`, 'trade'), 'accept');
+};
+
+// Delivered mission cargo puts its campaign up for debrief
+export const completeMissions = (state: GameState, delivered: Contract[]): GameState => {
+  return delivered.reduce((next, contract) => {
+    const campaign = CAMPAIGNS.find(c => c.steps.some(s => s.id === contract.mission));
+    if (!campaign || next.campaigns[campaign.id]?.status !== 'active') return next;
+    return setProgress(next, campaign.id, { stepId: contract.mission!, status: 'debrief' });
+  }, state);
+};
+
+// An active step whose cargo has left the hold any way but delivery has
+// failed: overdue, seized, dumped, plundered or abandoned
+export const checkMissions = (state: GameState): GameState => {
+  return CAMPAIGNS.reduce((next, campaign) => {
+    const progress = next.campaigns[campaign.id];
+    if (progress?.status !== 'active' || next.activeContracts.some(c => c.mission === progress.stepId)) return next;
+
+    const step = getStep(campaign, progress.stepId);
+    const failed = advanceTo(next, campaign, step?.failure.next, 'failed');
+    return emitCue(addLog(failed, `MISSION FAILED: ${step?.failure.text.toUpperCase()}`, 'trade', 'critical'), 'alert');
+  }, state);
+};
+
+export const debrief = (state: GameState, campaignId: string, choice: number): GameState => {
+  const campaign = getCampaign(campaignId);
+  const progress = state.campaigns[campaignId];
+  const branch = getStep(campaign, progress?.stepId)?.branches[choice];
+  if (!campaign || progress.status !== 'debrief' || !branch) return state;
+
+  let next = transact(state, branch.credits ?? 0, 'income', `CAMPAIGN: ${campaign.name.toUpperCase()}`, { faction: campaign.faction });
+  Object.entries(branch.reputation ?? {}).forEach(([faction, delta]) => {
+    next = adjustReputation(next, faction as Faction, delta ?? 0);
+  });
+  next = advanceTo(next, campaign, branch.next, 'complete');
+  return emitCue(addLog(next, branch.reply.toUpperCase(), 'trade'), (branch.credits ?? 0) > 0 ? 'cash' : 'accept');
+};
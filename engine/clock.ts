@@ -0,0 +1,28 @@
+import { GameState } from '../types';
+import { step } from './simulation';
+
+export const TICK_RATE = 60; // Simulation ticks per real second at 1x
+export const TICK_MS = 1000 / TICK_RATE;
+export const MAX_FRAME_MS = 250; // Longest real gap one frame may catch up on
+
+export type TimeScale = 0 | 1 | 4 | 16;
+export const TIME_SCALES: TimeScale[] = [0, 1, 4, 16]; // 0 is paused
+
+// Something the player should see at normal speed
+const raisedAlert = (prev: GameState, next: GameState) => {
+  return next.cues.some(c => c.seq > prev.cueSeq && c.kind === 'alert');
+};
+
+// Run up to `ticks` simulation ticks, stopping straight after any tick that
+// raised an alert so compressed time never skips past it
+export const advanceClock = (state: GameState, ticks: number): GameState => {
+  let current = state;
+  for (let i = 0; i < ticks; i++) {
+    const next = step(current, { type: 'TICK' });
+    if (next === current) break; // Game over, or held on an event
+    const alerted = raisedAlert(current, next);
+    current = next;
+    if (alerted) break;
+  }
+  return current;
+};
@@ -0,0 +1,279 @@
+import { ContentPack, Faction, LocationType } from '../types';
+import { BANKS, COMMODITIES, CONTRACT_TEMPLATES, FACTIONS, LOCATIONS, MARKETS, REP_TIERS, SHIPYARDS, SHIP_UPGRADES, STAR_SYSTEMS } from '../constants';
+import { generateSystem } from './starsystem';
+
+// --- SCHEMA ---
+
+// A rule checks one value and reports what's wrong with it under `path`,
+// e.g. `locations[2].orbitRadius must be a number above 0, got "far"`
+type Rule = (value: unknown, path: string, errors: string[]) => void;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const leaf = (test: (v: unknown) => boolean, what: string): Rule => (v, path, errors) => {
+  if (!test(v)) errors.push(`${path} must be ${what}, got ${JSON.stringify(v)}`);
+};
+
+const text = leaf(v => typeof v === 'string' && v.trim() !== '', 'a non-empty string');
+const flag = leaf(v => typeof v === 'boolean', 'true or false');
+const number = leaf(v => typeof v === 'number' && Number.isFinite(v), 'a number');
+const atLeast = (min: number) => leaf(v => typeof v === 'number' && v >= min, `a number of at least ${min}`);
+const above = (min: number) => leaf(v => typeof v === 'number' && v > min, `a number above ${min}`);
+const color = leaf(v => typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v), 'a hex colour like "#3b82f6"');
+const oneOf = (values: readonly string[]) => leaf(v => values.includes(v as string), `one of ${values.map(x => `"${x}"`).join(', ')}`);
+
+// Field names ending in '?' are optional. Unknown fields are reported too,
+// since a typo would otherwise be silently ignored.
+const shape = (fields: Record<string, Rule>): Rule => (v, path, errors) => {
+  if (!isRecord(v)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  const names = Object.keys(fields).map(k => k.replace(/\?$/, ''));
+  Object.entries(fields).forEach(([key, rule]) => {
+    const name = key.replace(/\?$/, '');
+    if (v[name] !== undefined) rule(v[name], `${path}.${name}`, errors);
+    else if (!key.endsWith('?')) errors.push(`${path}.${name} is missing`);
+  });
+  Object.keys(v).filter(k => !names.includes(k)).forEach(k => errors.push(`${path}.${k} is not a recognised field`));
+};
+
+const listOf = (rule: Rule): Rule => (v, path, errors) => {
+  if (Array.isArray(v)) v.forEach((item, i) => rule(item, `${path}[${i}]`, errors));
+  else errors.push(`${path} must be a list`);
+};
+
+const recordOf = (rule: Rule): Rule => (v, path, errors) => {
+  if (isRecord(v)) Object.entries(v).forEach(([k, item]) => rule(item, `${path}["${k}"]`, errors));
+  else errors.push(`${path} must be an object`);
+};
+
+const TIERS = REP_TIERS.map(t => t.tier);
+const UPGRADE_KINDS = SHIP_UPGRADES.map(u => u.kind);
+
+const FACTION_SCHEMA = shape({ id: text, color, startingRep: number });
+
+const SYSTEM_SCHEMA = shape({
+  id: text,
+  name: text,
+  primary: shape({ name: text, radius: above(0), color }),
+  coords: shape({ x: number, y: number })
+});
+
+const LOCATION_SCHEMA = shape({
+  id: text,
+  name: text,
+  type: oneOf(Object.values(LocationType)),
+  'system?': text, // The home system if left out
+  faction: text,
+  description: text,
+  color,
+  'coords?': shape({ x: number, y: number }), // Ignored; the orbit decides
+  'fuelPrice?': above(0),
+  orbitRadius: above(0), // Kept as drawn, even in generated systems
+  orbitSpeed: number,
+  initialAngle: number,
+  'gate?': shape({ to: text, toll: atLeast(0), fuel: atLeast(0) })
+});
+
+const TEMPLATE_SCHEMA = shape({
+  title: text,
+  basePay: above(0),
+  desc: text,
+  cargo: atLeast(1),
+  'risk?': oneOf(['LOW', 'MED', 'HIGH']),
+  'minTier?': oneOf(TIERS),
+  'faction?': text,
+  'secret?': flag
+});
+
+const SHIPYARD_SCHEMA = shape({
+  name: text,
+  priceMultiplier: above(0),
+  maxTier: shape(Object.fromEntries(UPGRADE_KINDS.map(k => [k, atLeast(0)])))
+});
+
+const BANK_SCHEMA = shape({
+  name: text,
+  minTier: oneOf(TIERS),
+  maxLoan: above(0),
+  rate: atLeast(0),
+  'rateSwing?': atLeast(0),
+  termDays: atLeast(1),
+  paymentInterval: atLeast(1),
+  collection: oneOf(['reputation', 'seizure', 'collectors'])
+});
+
+const MARKET_SCHEMA = shape(Object.fromEntries(COMMODITIES.map(c => [`${c.id}?`, shape({ equilibrium: above(0), bias: above(0) })])));
+
+const PACK_SCHEMA = shape({
+  id: text,
+  name: text,
+  'description?': text,
+  'factions?': listOf(FACTION_SCHEMA),
+  'systems?': listOf(SYSTEM_SCHEMA),
+  'locations?': listOf(LOCATION_SCHEMA),
+  'contractTemplates?': listOf(TEMPLATE_SCHEMA),
+  'shipyards?': recordOf(SHIPYARD_SCHEMA),
+  'banks?': recordOf(BANK_SCHEMA),
+  'markets?': recordOf(MARKET_SCHEMA)
+});
+
+// --- LOADING ---
+
+const BASE = {
+  factions: [...FACTIONS],
+  locations: [...LOCATIONS],
+  templates: [...CONTRACT_TEMPLATES],
+  shipyards: { ...SHIPYARDS },
+  banks: { ...BANKS },
+  markets: { ...MARKETS },
+  systems: STAR_SYSTEMS.map(s => ({ ...s }))
+};
+
+// Every pack the engine has been shown, by id, whether or not it's in force
+const registry = new Map<string, ContentPack>();
+let activePackIds: string[] = [];
+let activeSystemSeed: string | null = null;
+let stale = false; // A pack in force has been re-registered with new content
+
+export interface PackValidation {
+  pack: ContentPack | null; // Null when there were errors
+  errors: string[];
+}
+
+// Check a parsed JSON pack against the schema, then check that whatever it
+// refers to exists in the base set or the pack itself
+export const validatePack = (raw: unknown): PackValidation => {
+  const errors: string[] = [];
+  PACK_SCHEMA(raw, 'pack', errors);
+  if (errors.length > 0) return { pack: null, errors };
+
+  const pack = raw as ContentPack;
+  const factions = new Set<Faction>([...BASE.factions, ...(pack.factions ?? [])].map(f => f.id));
+  const systems = new Set([...BASE.systems, ...(pack.systems ?? [])].map(s => s.id));
+  const locations = new Map([...BASE.locations, ...(pack.locations ?? [])].map(l => [l.id, l]));
+  const checkFaction = (faction: Faction | undefined, path: string) => {
+    if (faction !== undefined && !factions.has(faction)) errors.push(`${path} names unknown faction "${faction}"`);
+  };
+
+  pack.locations?.forEach((l, i) => {
+    checkFaction(l.faction, `pack.locations[${i}].faction`);
+    if (l.system !== undefined && !systems.has(l.system)) errors.push(`pack.locations[${i}].system names unknown system "${l.system}"`);
+    if ((l.type === LocationType.GATE) !== !!l.gate) errors.push(`pack.locations[${i}] needs a gate link if, and only if, its type is "${LocationType.GATE}"`);
+    if (!l.gate) return;
+    // Gates come in pairs, each the other's way back
+    const twin = locations.get(l.gate.to);
+    if (!twin) errors.push(`pack.locations[${i}].gate.to names unknown location "${l.gate.to}"`);
+    else if (twin.type !== LocationType.GATE || !twin.gate) errors.push(`pack.locations[${i}].gate.to names "${l.gate.to}", which isn't a gate`);
+    else if (twin.gate.to !== l.id) errors.push(`pack.locations[${i}].gate.to names "${l.gate.to}", which links to "${twin.gate.to}" rather than back`);
+  });
+  pack.contractTemplates?.forEach((t, i) => checkFaction(t.faction, `pack.contractTemplates[${i}].faction`));
+  Object.keys(pack.shipyards ?? {}).forEach(f => checkFaction(f, `pack.shipyards["${f}"]`));
+  Object.keys(pack.banks ?? {}).forEach(f => checkFaction(f, `pack.banks["${f}"]`));
+  Object.keys(pack.markets ?? {}).forEach(id => {
+    if (!locations.has(id)) errors.push(`pack.markets["${id}"] names unknown location "${id}"`);
+  });
+
+  // Coordinates are worked out from the orbit
+  const locationsWithCoords = pack.locations?.map(l => ({ ...l, system: l.system ?? BASE.systems[0].id, coords: { x: 0, y: 0 } }));
+  return errors.length > 0 ? { pack: null, errors } : { pack: { ...pack, locations: locationsWithCoords }, errors };
+};
+
+const upsert = <T>(list: T[], items: T[] | undefined, key: (item: T) => string) => {
+  items?.forEach(item => {
+    const i = list.findIndex(x => key(x) === key(item));
+    if (i >= 0) list[i] = item;
+    else list.push(item);
+  });
+};
+
+// Swap the contents of `target` for `source`, keeping the same object
+const refill = <T extends object>(target: T, source: T) => {
+  Object.keys(target).forEach(k => delete target[k as keyof T]);
+  Object.assign(target, source);
+};
+
+// Rebuild the content tables as the base set with each pack layered on in
+// order, then lay each system out afresh if there's a seed.
+// The tables are the very arrays and records exported from constants.ts,
+// refilled in place, so every module that imports them sees the change.
+const applyContent = (packs: ContentPack[], systemSeed: string | null) => {
+  const factions = [...BASE.factions];
+  const systems = [...BASE.systems];
+  const locations = [...BASE.locations];
+  const templates = [...BASE.templates];
+  const shipyards = { ...BASE.shipyards };
+  const banks = { ...BASE.banks };
+  const markets = { ...BASE.markets };
+
+  packs.forEach(pack => {
+    upsert(factions, pack.factions, f => f.id);
+    upsert(systems, pack.systems, s => s.id);
+    upsert(locations, pack.locations, l => l.id);
+    upsert(templates, pack.contractTemplates, t => t.title);
+    Object.assign(shipyards, pack.shipyards);
+    Object.assign(banks, pack.banks);
+    Object.assign(markets, pack.markets);
+  });
+
+  const taken = new Set<string>();
+  const charted = new Set(packs.flatMap(p => p.locations ?? []).map(l => l.id));
+  const layouts = systemSeed === null ? null : systems.map((s, i) => {
+    return generateSystem(systemSeed, s, i === 0, locations.filter(l => l.system === s.id), factions, taken, charted);
+  });
+  layouts?.forEach(l => Object.assign(markets, l.markets));
+
+  FACTIONS.splice(0, FACTIONS.length, ...factions);
+  STAR_SYSTEMS.splice(0, STAR_SYSTEMS.length, ...systems.map((s, i) => (layouts ? { ...s, primary: layouts[i].primary } : s)));
+  LOCATIONS.splice(0, LOCATIONS.length, ...(layouts ? layouts.flatMap(l => l.locations) : locations));
+  CONTRACT_TEMPLATES.splice(0, CONTRACT_TEMPLATES.length, ...templates);
+  refill(SHIPYARDS, shipyards);
+  refill(BANKS, banks);
+  refill(MARKETS, markets);
+  activePackIds = packs.map(p => p.id);
+  activeSystemSeed = systemSeed;
+};
+
+// Make packs available to ensureContent. A pack already known under the
+// same id is replaced.
+export const registerPacks = (packs: ContentPack[]) => {
+  packs.forEach(pack => {
+    if (registry.get(pack.id) === pack) return;
+    registry.set(pack.id, pack);
+    if (activePackIds.includes(pack.id)) stale = true;
+  });
+};
+
+// Put the content a run was played with in force, if it isn't already.
+// Called once whenever a run, save or tape is opened; the rules then play
+// against whatever is in force. False if a pack hasn't been registered.
+export const ensureContent = (packIds: string[], systemSeed: string | null): boolean => {
+  const current = !stale && systemSeed === activeSystemSeed &&
+    packIds.length === activePackIds.length && packIds.every((id, i) => id === activePackIds[i]);
+  if (current) return true;
+
+  const packs = packIds.map(id => registry.get(id));
+  if (packs.some(p => !p)) return false;
+  applyContent(packs as ContentPack[], systemSeed);
+  stale = false;
+  return true;
+};
+
+// Run `fn` with a run's content in force, then put back whatever was in
+// force before. Null if a pack hasn't been registered.
+export const withContent = <T>(packIds: string[], systemSeed: string | null, fn: () => T): T | null => {
+  const previous = { packIds: activePackIds, systemSeed: activeSystemSeed };
+  if (!ensureContent(packIds, systemSeed)) return null;
+  try {
+    return fn();
+  } finally {
+    ensureContent(previous.packIds, previous.systemSeed);
+  }
+};
+
+export const getActivePackIds = () => activePackIds;
+
+export const getActiveSystemSeed = () => activeSystemSeed;
+
+export const getFactionColor = (faction: Faction) => FACTIONS.find(f => f.id === faction)?.color ?? '#a1a1aa';
@@ -0,0 +1,213 @@
+import { Contract, Faction, GameState, LocationType } from '../types';
+import { COMMODITIES, LOCATIONS, CONTRACT_TEMPLATES } from '../constants';
+import { addLog, emitCue } from './log';
+import { Rng } from './rng';
+import { adjustReputation, getTierProfile, tierAtLeast } from './reputation';
+import { payCargoClaim } from './insurance';
+import { tally } from './stats';
+import { transact } from './ledger';
+import { JUMP_TICKS, getGateStops, getTripLength } from './gates';
+
+const CONTRACTS_PER_LOCATION = 3;
+// Most work stays in-system; the rest runs through the gates and pays for it
+const CROSS_SYSTEM_CHANCE = 0.25;
+const PAY_PER_JUMP = 150;
+
+// Delivery windows. Allowance scales with the route, measured at a stock
+// engine's cruising speed so upgrades buy slack rather than shorter clocks.
+const DEADLINE_BASE_TICKS = 900;
+const DEADLINE_TICKS_PER_AU = 4 / 1.5;
+const DEADLINE_TICKS_PER_JUMP = JUMP_TICKS * 3; // The jump itself plus slack to line up on the gate
+const LATE_WINDOW_FRACTION = 0.5; // Grace after the deadline, as a share of the allowance
+const LATE_PAY_FLOOR = 0.5; // Pay fraction at the hard cutoff
+const FAIL_REP_PENALTY = 10;
+const ABANDON_REP_PENALTY = 5;
+const ABANDON_FEE_FRACTION = 0.1;
+
+// Helper to generate a single random contract
+export const generateNewContract = (state: GameState, rng: Rng, stationId: string): Contract | null => {
+  const station = LOCATIONS.find(l => l.id === stationId);
+  if (!station || station.gate) return null; // Gates post no work
+
+  // The issuer's opinion of us decides which jobs reach the board and what they pay
+  const standing = getTierProfile(state, station.faction);
+  if (standing.tier === 'hostile') return null;
+
+  const templates = CONTRACT_TEMPLATES.filter(t =>
+    (!t.faction || t.faction === station.faction) &&
+    (!t.minTier || tierAtLeast(standing.tier, t.minTier))
+  );
+  const template = rng.pick(templates);
+  const currentTime = state.gameTime;
+
+  // Select destination: any port except current, sometimes through the gates
+  const destinations = LOCATIONS.filter(l => l.id !== stationId && l.type !== LocationType.GATE);
+  const local = destinations.filter(l => l.system === station.system);
+  const remote = destinations.filter(l => l.system !== station.system && getGateStops(stationId, l.id));
+  const pool = remote.length > 0 && (local.length === 0 || rng.chance(CROSS_SYSTEM_CHANCE)) ? remote : local;
+  if (pool.length === 0) return null;
+  const dest = rng.pick(pool);
+  const jumps = getGateStops(stationId, dest.id)!.length / 2;
+
+  // Rolled even when the template sets it, so the rolls after it don't shift
+  const rolled = rng.next() > 0.7 ? 'HIGH' : (rng.next() > 0.4 ? 'MED' : 'LOW');
+  const risk = template.risk ?? rolled;
+  const riskPay = risk === 'HIGH' ? 200 : (risk === 'MED' ? 80 : 0);
+
+  // Duration: 1500 to 4500 ticks (approx 25s to 75s)
+  const duration = 1500 + rng.int(3000);
+
+  return {
+    id: `cnt-${currentTime}-${rng.int(36 ** 6).toString(36)}`,
+    title: template.title,
+    description: template.desc,
+    destinationId: dest.id,
+    pay: Math.floor((template.basePay + riskPay + jumps * PAY_PER_JUMP) * standing.payMultiplier),
+    riskLevel: risk,
+    faction: station.faction,
+    expiresAt: currentTime + duration,
+    cargoSize: template.cargo + rng.int(3),
+    secret: template.secret
+  };
+};
+
+// Contract consignments plus trade goods, one unit each
+export const getCargoUsed = (state: GameState) => {
+  const goods = Object.values(state.cargoGoods).reduce((sum, qty) => sum + (qty ?? 0), 0);
+  return state.activeContracts.reduce((sum, c) => sum + c.cargoSize, goods);
+};
+
+export const getHoldSpace = (state: GameState) => {
+  return state.ship.cargoCapacity - getCargoUsed(state);
+};
+
+const isIllegal = (id: string) => !!COMMODITIES.find(c => c.id === id)?.illegal;
+
+// Off-the-books jobs are contraband to everyone but whoever issued them
+const isContrabandJob = (c: Contract, authority?: Faction) => !!c.secret && c.faction !== authority;
+
+// Illegal goods, or secret jobs the searching `authority` didn't sanction
+export const hasContraband = (state: GameState, authority?: Faction) => {
+  return state.activeContracts.some(c => isContrabandJob(c, authority)) ||
+    Object.entries(state.cargoGoods).some(([id, units]) => isIllegal(id) && (units ?? 0) > 0);
+};
+
+export const seizeContraband = (state: GameState, authority?: Faction): GameState => {
+  const cargoGoods = Object.fromEntries(Object.entries(state.cargoGoods).filter(([id]) => !isIllegal(id)));
+  return { ...state, cargoGoods, activeContracts: state.activeContracts.filter(c => !isContrabandJob(c, authority)) };
+};
+
+// Stamp route distance and delivery windows onto a contract being accepted.
+// Jobs through the gates get time for each jump on top of the distance.
+export const assignDeadline = (state: GameState, contract: Contract): Contract => {
+  const trip = getTripLength(state.currentLocationId, contract.destinationId, state.gameTime);
+  const baseDistance = trip?.distance ?? 0;
+  const jumps = trip?.jumps ?? 0;
+  const allowance = DEADLINE_BASE_TICKS + Math.ceil(baseDistance * DEADLINE_TICKS_PER_AU) + jumps * DEADLINE_TICKS_PER_JUMP;
+  const deadline = state.gameTime + allowance;
+
+  return {
+    ...contract,
+    baseDistance,
+    deadline,
+    failsAt: deadline + Math.ceil(allowance * LATE_WINDOW_FRACTION)
+  };
+};
+
+// Full pay up to the deadline, then decaying linearly to LATE_PAY_FLOOR at the cutoff
+export const getDeliveryPay = (contract: Contract, now: number): number => {
+  if (contract.deadline === undefined || contract.failsAt === undefined || now <= contract.deadline) {
+    return contract.pay;
+  }
+  const lateness = Math.min(1, (now - contract.deadline) / Math.max(1, contract.failsAt - contract.deadline));
+  return Math.floor(contract.pay * (1 - (1 - LATE_PAY_FLOOR) * lateness));
+};
+
+export const isLate = (contract: Contract, now: number) => {
+  return contract.deadline !== undefined && now > contract.deadline;
+};
+
+// Drop jobs undelivered; each issuer remembers it. Only cargo actually lost
+// (`claimable`) goes to the insurer; running out the clock or throwing the
+// hold overboard is on the runner.
+export const forfeitContracts = (state: GameState, forfeited: Contract[], reason: string, claimable = false): GameState => {
+  if (forfeited.length === 0) return state;
+
+  let next: GameState = { ...state, activeContracts: state.activeContracts.filter(c => !forfeited.includes(c)) };
+  forfeited.forEach(c => {
+    next = adjustReputation(next, c.faction, -FAIL_REP_PENALTY);
+    next = addLog(next, `${reason}: ${c.title.toUpperCase()}. REP -${FAIL_REP_PENALTY}`, 'trade', 'critical');
+    if (claimable) next = payCargoClaim(next, c);
+  });
+  return emitCue(next, 'alert');
+};
+
+// Jobs past their hard cutoff are forfeit
+export const failOverdueContracts = (state: GameState): GameState => {
+  const overdue = state.activeContracts.filter(c => c.failsAt !== undefined && state.gameTime > c.failsAt);
+  return forfeitContracts(state, overdue, 'CONTRACT FAILED');
+};
+
+export const abandonContract = (state: GameState, contractId: string): GameState => {
+  const contract = state.activeContracts.find(c => c.id === contractId);
+  if (!contract) return state;
+
+  const fee = Math.min(state.credits, Math.ceil(contract.pay * ABANDON_FEE_FRACTION));
+  const charged = transact(state, -fee, 'penalty', "ABANDON FEE", { faction: contract.faction, contract });
+  const dropped = adjustReputation({
+    ...charged,
+    activeContracts: state.activeContracts.filter(c => c.id !== contractId)
+  }, contract.faction, -ABANDON_REP_PENALTY);
+  return emitCue(addLog(dropped, `ABANDONED: ${contract.title}. -${fee} CR, REP -${ABANDON_REP_PENALTY}`, 'trade', 'warning'), 'error');
+};
+
+// Initial Generation / Refresh on Arrival
+export const spawnContractsForLocation = (state: GameState, rng: Rng, stationId: string): Contract[] => {
+  const contracts: Contract[] = [];
+  for (let i = 0; i < CONTRACTS_PER_LOCATION; i++) {
+    const c = generateNewContract(state, rng, stationId);
+    if (c) contracts.push(c);
+  }
+  return contracts;
+};
+
+// Per-tick contract lifecycle: expiry, rival runners and replenishment
+export const maintainContracts = (state: GameState, rng: Rng): GameState => {
+  const now = state.gameTime;
+
+  if (state.contracts.length === 0) {
+    // If completely empty and we are landed, force spawn one (slowly)
+    if (!state.isFlying && rng.chance(0.01)) {
+      const newContract = generateNewContract(state, rng, state.currentLocationId);
+      if (newContract) return { ...state, contracts: [newContract] };
+    }
+    return state;
+  }
+
+  // Filter out expired contracts
+  const active = state.contracts.filter(c => c.expiresAt > now);
+
+  // Random "Rival Runner" Snatch
+  // Chance per tick: 1 in 2000
+  const rivalSnatch = rng.chance(0.0005);
+  let snatched = false;
+
+  if (rivalSnatch && active.length > 0) {
+    const idx = rng.int(active.length);
+    active.splice(idx, 1);
+    snatched = true;
+  }
+
+  // Replenishment Logic
+  // If contracts are low, randomly spawn one for wherever we last docked
+  if (active.length < CONTRACTS_PER_LOCATION && rng.chance(0.005)) { // ~0.5% chance per tick
+    const newContract = generateNewContract(state, rng, state.currentLocationId);
+    if (newContract) active.push(newContract);
+  }
+
+  // Same postings, same order: nothing changed this tick
+  if (active.length === state.contracts.length && active.every((c, i) => c === state.contracts[i])) return state;
+
+  const next = { ...state, contracts: active };
+  return snatched ? addLog(tally(next, 'contractsLostToRivals'), "ALERT: CONTRACT TAKEN BY RIVAL RUNNER.", 'trade', 'warning') : next;
+};
@@ -0,0 +1,97 @@
+import { EventOutcome, Faction, FlightEvent, GameState } from '../types';
+import { FLIGHT_EVENTS } from '../constants';
+import { getDistance, getDynamicLocations } from './orbits';
+import { getShipPosition } from './flight';
+import { addLog, emitCue } from './log';
+import { Rng } from './rng';
+import { adjustReputation } from './reputation';
+import { hasContraband, seizeContraband } from './contracts';
+import { transact } from './ledger';
+import { getShipSystemId, isJump } from './gates';
+
+export const FLIGHT_EVENT_CHANCE = 0.005; // Per tick in flight
+
+const RISK_ORDER = ['LOW', 'MED', 'HIGH'];
+
+// Riskiest job aboard; an empty hold flies LOW
+export const getFlightRisk = (state: GameState): 'LOW' | 'MED' | 'HIGH' => {
+  return state.activeContracts.reduce<'LOW' | 'MED' | 'HIGH'>(
+    (worst, c) => RISK_ORDER.indexOf(c.riskLevel) > RISK_ORDER.indexOf(worst) ? c.riskLevel : worst,
+    'LOW'
+  );
+};
+
+// Space belongs to whoever owns the nearest body in the system we're in
+export const getSpaceFaction = (state: GameState): Faction => {
+  const ship = getShipPosition(state);
+  const system = getShipSystemId(state);
+  const nearest = getDynamicLocations(state.gameTime)
+    .filter(l => l.system === system)
+    .reduce((best, l) => getDistance(ship, l.coords) < getDistance(ship, best.coords) ? l : best);
+  return nearest.faction;
+};
+
+const canTrigger = (state: GameState, event: FlightEvent, faction: Faction) => {
+  const { minRisk, factions, cargo, hullBelow, fuelBelow } = event.trigger;
+  if (minRisk && RISK_ORDER.indexOf(getFlightRisk(state)) < RISK_ORDER.indexOf(minRisk)) return false;
+  if (factions && !factions.includes(faction)) return false;
+  if (cargo === 'contraband' && !hasContraband(state, faction)) return false;
+  if (cargo && cargo !== 'contraband' && !(state.cargoGoods[cargo] ?? 0)) return false;
+  if (hullBelow !== undefined && state.hull >= state.ship.maxHull * hullBelow / 100) return false;
+  if (fuelBelow !== undefined && state.fuel >= state.ship.maxFuel * fuelBelow / 100) return false;
+  return true;
+};
+
+export const getEvent = (id: string | undefined) => FLIGHT_EVENTS.find(e => e.id === id);
+
+// Maybe raise an incident this tick. The flight holds until it's resolved.
+// Nothing happens inside a jump.
+export const rollFlightEvent = (state: GameState, rng: Rng): GameState => {
+  if (!state.isFlying || isJump(state.flightPlan)) return state;
+  if (state.pendingEvent || state.encounter || !rng.chance(FLIGHT_EVENT_CHANCE)) return state;
+
+  const faction = getSpaceFaction(state);
+  const eligible = FLIGHT_EVENTS.filter(e => canTrigger(state, e, faction));
+  if (eligible.length === 0) return state;
+
+  // Weighted pick
+  let roll = rng.next() * eligible.reduce((sum, e) => sum + e.weight, 0);
+  const event = eligible.find(e => (roll -= e.weight) < 0) ?? eligible[eligible.length - 1];
+
+  const raised = { ...state, pendingEvent: { eventId: event.id, faction } };
+  return emitCue(addLog(raised, `ALERT: ${event.title.toUpperCase()}`, 'nav', 'warning'), 'alert');
+};
+
+const applyOutcome = (state: GameState, outcome: EventOutcome, faction: Faction): GameState => {
+  const credits = Math.max(-state.credits, outcome.credits ?? 0);
+  let next: GameState = {
+    ...state,
+    hull: Math.min(state.ship.maxHull, state.hull + (outcome.hull ?? 0)),
+    fuel: Math.max(0, Math.min(state.ship.maxFuel, state.fuel + (outcome.fuel ?? 0)))
+  };
+  next = transact(next, credits, credits > 0 ? 'income' : 'penalty', "FLIGHT INCIDENT", { faction });
+  next = adjustReputation(next, faction, outcome.reputation ?? 0);
+
+  if (outcome.confiscate) next = seizeContraband(next, faction);
+  if (outcome.jettison) {
+    const { [outcome.jettison]: _dumped, ...cargoGoods } = next.cargoGoods;
+    next = { ...next, cargoGoods };
+  }
+
+  const cue = (outcome.hull ?? 0) < 0 ? 'alert' : (outcome.credits ?? 0) > 0 ? 'cash' : 'accept';
+  return emitCue(addLog(next, outcome.text.toUpperCase(), 'nav'), cue);
+};
+
+export const resolveEvent = (state: GameState, rng: Rng, choiceIndex: number): GameState => {
+  const pending = state.pendingEvent;
+  const choice = getEvent(pending?.eventId)?.choices[choiceIndex];
+  if (!pending || !choice) return state;
+
+  if (choice.cost && state.credits < choice.cost) {
+    return emitCue(addLog(state, "INSUFFICIENT FUNDS.", 'nav', 'warning'), 'error');
+  }
+
+  const succeeded = choice.chance === undefined || rng.chance(choice.chance);
+  const outcome = succeeded || !choice.failure ? choice.success : choice.failure;
+  return applyOutcome({ ...state, pendingEvent: null }, outcome, pending.faction);
+};
@@ -0,0 +1,225 @@
+import { Coordinates, FlightPlan, GameState, Location, ShipStats, CENTER } from '../types';
+import { LOCATIONS } from '../constants';
+import { getDistance, getLocationAt, getPositionAt } from './orbits';
+import { getDeliveryPay, isLate, spawnContractsForLocation } from './contracts';
+import { addLog, emitCue } from './log';
+import { Rng } from './rng';
+import { adjustReputation, canDockAt } from './reputation';
+import { inspectOnArrival } from './calendar';
+import { completeMissions } from './campaigns';
+import { recordDeliveries, recordNearMiss, tally } from './stats';
+import { transact } from './ledger';
+import { JUMP_TICKS, getSystem, getSystemId, getTwinGate, isJump } from './gates';
+
+const MIN_FLIGHT_FRAMES = 60;
+const INTERCEPT_SCAN_STEP = 8; // Ticks between coarse samples when bracketing the intercept
+const INTERCEPT_MAX_TICKS = 20000; // Give up on anything we can't catch by then
+const INTERCEPT_REFINE_STEPS = 24;
+
+export const getFuelCost = (dist: number, ship: ShipStats) => {
+  return dist * ship.fuelEfficiency * 0.5; // Tuning factor
+};
+
+// Solve for where the destination will be when we reach it, flying a
+// straight line from `from` at cruising speed. Returns null if the
+// destination is unknown or can't be caught.
+export const planIntercept = (
+  from: Coordinates,
+  destinationId: string,
+  departTime: number,
+  ship: ShipStats
+): FlightPlan | null => {
+  const dest = LOCATIONS.find(l => l.id === destinationId);
+  if (!dest) return null;
+
+  // Positive while the target is still out of reach after t ticks of flight
+  const gap = (t: number) => getDistance(from, getPositionAt(dest, departTime + t)) - ship.speed * t;
+
+  // Bracket the first moment we could be there, then bisect it down
+  let lo = 0;
+  while (gap(lo + INTERCEPT_SCAN_STEP) > 0) {
+    lo += INTERCEPT_SCAN_STEP;
+    if (lo > INTERCEPT_MAX_TICKS) return null;
+  }
+  let hi = lo + INTERCEPT_SCAN_STEP;
+  for (let i = 0; i < INTERCEPT_REFINE_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (gap(mid) > 0) lo = mid; else hi = mid;
+  }
+
+  // Whole ticks only; short hops are stretched to the minimum burn
+  let duration = Math.max(MIN_FLIGHT_FRAMES, Math.ceil(hi));
+  while (gap(duration) > 0) duration++;
+
+  const to = getPositionAt(dest, departTime + duration);
+  const distance = getDistance(from, to);
+  return { destinationId, from, to, departTime, duration, distance, fuel: getFuelCost(distance, ship) };
+};
+
+// Gate transit: fixed time and burn whatever the geometry. The course is
+// drawn in the far system, from the twin gate out as it carries on orbiting.
+export const planJump = (gate: Location, departTime: number): FlightPlan | null => {
+  const twin = getTwinGate(gate);
+  if (!gate.gate || !twin) return null;
+  return {
+    destinationId: twin.id,
+    from: getPositionAt(twin, departTime),
+    to: getPositionAt(twin, departTime + JUMP_TICKS),
+    departTime,
+    duration: JUMP_TICKS,
+    distance: 0,
+    fuel: gate.gate.fuel,
+    toll: gate.gate.toll
+  };
+};
+
+// One leg out of the stop `fromId`, sitting at `from`: a jump if we're at
+// the gate it leads through, otherwise an intercept, which only works
+// within one system
+export const planLeg = (
+  fromId: string,
+  from: Coordinates,
+  destinationId: string,
+  departTime: number,
+  ship: ShipStats
+): FlightPlan | null => {
+  const origin = LOCATIONS.find(l => l.id === fromId);
+  if (!origin) return null;
+  if (origin.gate?.to === destinationId) return planJump(origin, departTime);
+  if (origin.system !== getSystemId(destinationId)) return null;
+  return planIntercept(from, destinationId, departTime, ship);
+};
+
+// Next leg from wherever we're docked right now
+export const planTravel = (state: GameState, destinationId: string): FlightPlan | null => {
+  const origin = getLocationAt(state.currentLocationId, state.gameTime);
+  if (!origin || origin.id === destinationId) return null;
+  return planLeg(origin.id, origin.coords, destinationId, state.gameTime, state.ship);
+};
+
+// Ship position for map rendering. `alpha` is how far into the next tick
+// the frame is drawn, so motion stays smooth between fixed steps.
+export const getShipPosition = (state: GameState, alpha = 0): Coordinates => {
+  if (!state.isFlying) {
+    return getLocationAt(state.currentLocationId, state.gameTime + alpha)?.coords ?? CENTER;
+  }
+
+  const plan = state.flightPlan;
+  if (!plan) return CENTER;
+
+  const progress = Math.min(1, (state.gameTime + alpha - plan.departTime) / plan.duration);
+  const x = plan.from.x + (plan.to.x - plan.from.x) * progress;
+  const y = plan.from.y + (plan.to.y - plan.from.y) * progress;
+  return { x, y };
+};
+
+export const getShipRotation = (state: GameState): number => {
+  if (!state.isFlying || !state.flightPlan) return 0;
+  const { from, to } = state.flightPlan;
+
+  const dy = to.y - from.y;
+  const dx = to.x - from.x;
+  return (Math.atan2(dy, dx) * 180 / Math.PI) + 90;
+};
+
+export const startTravel = (state: GameState, targetId: string): GameState => {
+  if (state.isFlying) return state;
+
+  const origin = getLocationAt(state.currentLocationId, state.gameTime);
+  const dest = getLocationAt(targetId, state.gameTime);
+  if (!origin || !dest || origin.id === dest.id) return state;
+
+  if (!canDockAt(state, dest)) {
+    return emitCue(addLog(state, `ERROR: ${dest.name.toUpperCase()} DENIES DOCKING CLEARANCE.`, 'nav', 'warning'), 'error');
+  }
+
+  const plan = planTravel(state, dest.id);
+  if (!plan && origin.system !== dest.system) {
+    return emitCue(addLog(state, "ERROR: OUT OF SYSTEM. PLOT A ROUTE THROUGH THE GATES.", 'nav', 'warning'), 'error');
+  }
+  if (!plan) {
+    return emitCue(addLog(state, "ERROR: NO INTERCEPT SOLUTION.", 'nav', 'warning'), 'error');
+  }
+  if (state.fuel < plan.fuel) {
+    return emitCue(addLog(state, "ERROR: INSUFFICIENT FUEL FOR TRAJECTORY.", 'nav', 'warning'), 'error');
+  }
+  if (state.credits < (plan.toll ?? 0)) {
+    return emitCue(addLog(state, "ERROR: INSUFFICIENT FUNDS FOR GATE TOLL.", 'nav', 'warning'), 'error');
+  }
+
+  // The Gate Authority takes its toll before opening the aperture
+  const launched = isJump(plan)
+    ? addLog(transact(state, -plan.toll!, 'fee', `GATE TOLL: ${origin.name.toUpperCase()}`), `JUMP SEQUENCE ENGAGED: ${getSystem(dest.system)?.name.toUpperCase()}...`, 'nav')
+    : addLog(state, `TRAJECTORY LOCKED: ${dest.name}...`, 'nav');
+  return emitCue({
+    ...launched,
+    isFlying: true,
+    flightOriginId: origin.id,
+    flightDestinationId: dest.id,
+    flightProgress: 0,
+    flightDuration: plan.duration,
+    flightPlan: plan
+  }, 'engine-start');
+};
+
+const arrive = (state: GameState, rng: Rng): GameState => {
+  const arrivalId = state.flightDestinationId!;
+  const destName = LOCATIONS.find(l => l.id === arrivalId)?.name || "UNKNOWN";
+  // Customs get first look on inspection days
+  const inspected = inspectOnArrival(state, arrivalId);
+  let next: GameState = emitCue(emitCue(inspected, 'engine-stop'), 'accept');
+  let msg = isJump(state.flightPlan) ? `JUMP COMPLETE. ARRIVED AT ${destName}.` : `ARRIVED AT ${destName}.`;
+
+  // Hand over every consignment bound for this stop; late jobs pay less
+  // and earn less goodwill
+  const delivered = inspected.activeContracts.filter(c => c.destinationId === arrivalId);
+  if (delivered.length > 0) {
+    let payout = 0;
+    delivered.forEach(c => {
+      const pay = getDeliveryPay(c, state.gameTime);
+      payout += pay;
+      next = transact(next, pay, 'income', `DELIVERY: ${c.title.toUpperCase()}`, { faction: c.faction, contract: c, locationId: arrivalId });
+      next = adjustReputation(next, c.faction, isLate(c, state.gameTime) ? 1 : 5);
+    });
+    next = recordDeliveries(completeMissions(next, delivered), delivered, arrivalId);
+    next = emitCue(next, 'cash');
+    msg = delivered.length === 1 ? `JOB DONE. +${payout} CR.` : `${delivered.length} JOBS DONE. +${payout} CR.`;
+  }
+
+  next = recordNearMiss(tally(next, 'distanceFlown', state.flightPlan?.distance ?? 0));
+  next = {
+    ...next,
+    isFlying: false,
+    flightProgress: 0,
+    currentLocationId: arrivalId,
+    flightOriginId: null,
+    flightDestinationId: null,
+    flightPlan: null,
+    activeContracts: inspected.activeContracts.filter(c => c.destinationId !== arrivalId)
+  };
+  // Fresh board for the new stop, priced off our updated standing
+  next = { ...next, contracts: spawnContractsForLocation(next, rng, arrivalId) };
+  return addLog(next, msg, 'nav');
+};
+
+// Advance an in-progress flight by one frame
+export const stepFlight = (state: GameState, rng: Rng): GameState => {
+  const plan = state.flightPlan;
+  if (!state.isFlying || !plan) return state;
+
+  if (state.fuel <= 0 || state.hull <= 0) {
+    const failed = emitCue(emitCue(state, 'engine-stop'), 'error');
+    return addLog({ ...failed, isFlying: false, isGameOver: true }, "CRITICAL FAILURE.", 'nav', 'critical');
+  }
+
+  // The quoted burn is spread evenly over the course
+  const elapsed = state.gameTime - plan.departTime;
+  const next: GameState = {
+    ...state,
+    flightProgress: Math.min(1, elapsed / plan.duration),
+    fuel: Math.max(0, state.fuel - plan.fuel / plan.duration)
+  };
+
+  if (elapsed >= plan.duration) return arrive(next, rng);
+  return next;
+};
@@ -0,0 +1,48 @@
+import { FlightPlan, GameState } from '../types';
+import { getLocationAt } from './orbits';
+import { planLeg } from './flight';
+
+export const FORECAST_HORIZON = 2000; // Ticks ahead the forecaster looks
+const FORECAST_STEP = 20; // Ticks between chart samples
+const MAX_WINDOWS = 3;
+
+// A direct intercept from wherever our berth will be at `departTime`
+const planLaunchAt = (state: GameState, destinationId: string, departTime: number): FlightPlan | null => {
+  const origin = getLocationAt(state.currentLocationId, departTime);
+  if (!origin || origin.id === destinationId) return null;
+  return planLeg(origin.id, origin.coords, destinationId, departTime, state.ship);
+};
+
+// Direct-flight quotes for launching at each sample over the horizon.
+// Both ends keep orbiting, so the cost swings as they line up and drift apart.
+export const forecastLaunches = (state: GameState, destinationId: string): FlightPlan[] => {
+  const samples: FlightPlan[] = [];
+  for (let t = 0; t <= FORECAST_HORIZON; t += FORECAST_STEP) {
+    const plan = planLaunchAt(state, destinationId, state.gameTime + t);
+    if (plan) samples.push(plan);
+  }
+  return samples;
+};
+
+// The cheapest launch windows in a forecast, cheapest first. Each is a dip
+// in the sampled fuel curve, then pinned to the exact best tick around it.
+// A curve still falling at the horizon isn't a window yet.
+export const findLaunchWindows = (state: GameState, samples: FlightPlan[]): FlightPlan[] => {
+  const dips = samples.filter((s, i) =>
+    i < samples.length - 1 && (i === 0 || s.fuel <= samples[i - 1].fuel) && s.fuel < samples[i + 1].fuel
+  );
+  const horizon = state.gameTime + FORECAST_HORIZON;
+
+  return dips
+    .map(dip => {
+      let best = dip;
+      const from = Math.max(state.gameTime, dip.departTime - FORECAST_STEP);
+      for (let t = from; t <= Math.min(horizon, dip.departTime + FORECAST_STEP); t++) {
+        const plan = planLaunchAt(state, dip.destinationId, t);
+        if (plan && plan.fuel < best.fuel) best = plan;
+      }
+      return best;
+    })
+    .sort((a, b) => a.fuel - b.fuel)
+    .slice(0, MAX_WINDOWS);
+};
@@ -0,0 +1,76 @@
+import { Faction, FlightPlan, GameState, Location, LocationType, StarSystem } from '../types';
+import { LOCATIONS, STAR_SYSTEMS } from '../constants';
+import { getDistance, getLocationAt } from './orbits';
+
+export const JUMP_TICKS = 120; // Transit time through any gate
+
+export const getSystem = (id: string | undefined): StarSystem | undefined => STAR_SYSTEMS.find(s => s.id === id);
+
+export const getSystemId = (locationId: string | null): string | undefined => {
+  return LOCATIONS.find(l => l.id === locationId)?.system;
+};
+
+// Where the ship is: the system we're docked in, or the one we're bound
+// for. A jump counts as being in the far system from the moment it starts.
+export const getShipSystemId = (state: GameState): string => {
+  return getSystemId(state.isFlying ? state.flightDestinationId : state.currentLocationId) ?? STAR_SYSTEMS[0].id;
+};
+
+// The gate at the far end, if `location` is a gate
+export const getTwinGate = (location: Location | undefined): Location | undefined => {
+  return location?.gate ? LOCATIONS.find(l => l.id === location.gate!.to) : undefined;
+};
+
+// Gate transits are the only legs that carry a toll
+export const isJump = (plan: FlightPlan | null): boolean => plan?.toll !== undefined;
+
+// Gates to pass through between two locations, as flight stops: each gate
+// followed by its twin, fewest jumps first. Empty within one system, null
+// when no chain of gates connects them.
+export const getGateStops = (fromId: string, toId: string): string[] | null => {
+  const from = getSystemId(fromId);
+  const to = getSystemId(toId);
+  if (!from || !to) return null;
+
+  // Breadth-first over systems, remembering the stops that first reached each
+  const reached = new Map<string, string[]>([[from, []]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const system = queue.shift()!;
+    if (system === to) return reached.get(system)!;
+    LOCATIONS.filter(l => l.system === system && l.gate).forEach(gate => {
+      const twin = getTwinGate(gate);
+      if (!twin || reached.has(twin.system)) return;
+      reached.set(twin.system, [...reached.get(system)!, gate.id, twin.id]);
+      queue.push(twin.system);
+    });
+  }
+  return null;
+};
+
+// Straight-line length of a trip's in-system stretches at `time`, and the
+// jumps between them. Null when there's no way through.
+export const getTripLength = (fromId: string, toId: string, time: number) => {
+  const gates = getGateStops(fromId, toId);
+  if (!gates) return null;
+
+  // Stops pair up as [from, gate], [twin, gate], ..., [twin, to]
+  const stops = [fromId, ...gates, toId];
+  let distance = 0;
+  for (let i = 0; i < stops.length; i += 2) {
+    const a = getLocationAt(stops[i], time);
+    const b = getLocationAt(stops[i + 1], time);
+    if (a && b) distance += getDistance(a.coords, b.coords);
+  }
+  return { distance, jumps: gates.length / 2 };
+};
+
+// Share of a system's bodies each faction holds, gates aside
+export const getFactionPresence = (systemId: string): Partial<Record<Faction, number>> => {
+  const bodies = LOCATIONS.filter(l => l.system === systemId && l.type !== LocationType.GATE);
+  const presence: Partial<Record<Faction, number>> = {};
+  bodies.forEach(l => {
+    presence[l.faction] = (presence[l.faction] ?? 0) + 1 / bodies.length;
+  });
+  return presence;
+};
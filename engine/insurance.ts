@@ -0,0 +1,105 @@
+import { Contract, Faction, GameState, Location, LocationType } from '../types';
+import { LOCATIONS } from '../constants';
+import { addLog, emitCue } from './log';
+import { transact } from './ledger';
+import { getTierProfile, refuseService, servicesOpen } from './reputation';
+
+const COVER_DAYS = 7;
+const DEDUCTIBLE = 30;
+const HULL_BASE_PREMIUM = 40;
+const PREMIUM_PER_HP = 1.5; // Hull premium loading per HP lost in the last DAMAGE_MEMORY_DAYS
+const DAMAGE_MEMORY_DAYS = 7;
+// Share of the job's pay. Cargo cover is against raiders only: a job that
+// runs out of time, or a hold dumped to buy them off, is the runner's loss.
+const CARGO_RATE: Record<Contract['riskLevel'], number> = { LOW: 0.03, MED: 0.08, HIGH: 0.18 };
+
+// Only stations write policies
+const getUnderwriter = (state: GameState, location: Location | undefined) => {
+  if (state.isFlying || !location || location.type !== LocationType.STATION) return null;
+  return location;
+};
+
+export const getRecentDamage = (state: GameState) => {
+  return state.damageHistory
+    .filter(d => d.day > state.day - DAMAGE_MEMORY_DAYS)
+    .reduce((sum, d) => sum + d.hp, 0);
+};
+
+export const isCovered = (state: GameState) => !!state.hullCover && state.hullCover.expiresDay >= state.day;
+
+// Nobody underwrites the Fringe's off-the-books work
+export const isInsurable = (contract: Contract) => !(contract.secret && contract.faction === Faction.X99);
+
+export const getHullPremium = (state: GameState, location: Location) => {
+  const base = HULL_BASE_PREMIUM + getRecentDamage(state) * PREMIUM_PER_HP;
+  return Math.ceil(base * getTierProfile(state, location.faction).priceMultiplier);
+};
+
+export const getCargoPremium = (state: GameState, contract: Contract, location: Location) => {
+  const loading = 1 + getRecentDamage(state) / 100;
+  return Math.ceil(contract.pay * CARGO_RATE[contract.riskLevel] * loading * getTierProfile(state, location.faction).priceMultiplier);
+};
+
+// What the insurer pays towards a repair bill of `cost`
+export const getHullClaim = (state: GameState, cost: number) => {
+  return isCovered(state) ? Math.max(0, cost - state.hullCover!.deductible) : 0;
+};
+
+export const buyHullCover = (state: GameState): GameState => {
+  const location = getUnderwriter(state, LOCATIONS.find(l => l.id === state.currentLocationId));
+  if (!location || isCovered(state)) return state;
+  if (!servicesOpen(state, location)) return refuseService(state);
+
+  const premium = getHullPremium(state, location);
+  if (state.credits < premium) {
+    return emitCue(addLog(state, "INSUFFICIENT FUNDS.", 'trade', 'warning'), 'error');
+  }
+
+  const covered = transact({
+    ...state,
+    hullCover: { underwriter: location.faction, expiresDay: state.day + COVER_DAYS - 1, deductible: DEDUCTIBLE }
+  }, -premium, 'insurance', "HULL COVER PREMIUM");
+  return emitCue(addLog(covered, `HULL COVER BOUGHT. ${COVER_DAYS} DAYS. -${premium} CR`, 'trade'), 'cash');
+};
+
+export const insureCargo = (state: GameState, contractId: string): GameState => {
+  const location = getUnderwriter(state, LOCATIONS.find(l => l.id === state.currentLocationId));
+  const contract = state.activeContracts.find(c => c.id === contractId);
+  if (!location || !contract || contract.insured) return state;
+  if (!servicesOpen(state, location)) return refuseService(state);
+  if (!isInsurable(contract)) {
+    return emitCue(addLog(state, "ERROR: UNDERWRITER DECLINES. CONTRABAND.", 'trade', 'warning'), 'error');
+  }
+
+  const premium = getCargoPremium(state, contract, location);
+  if (state.credits < premium) {
+    return emitCue(addLog(state, "INSUFFICIENT FUNDS.", 'trade', 'warning'), 'error');
+  }
+
+  const insured = transact({
+    ...state,
+    activeContracts: state.activeContracts.map(c => c.id === contractId ? { ...c, insured: true } : c)
+  }, -premium, 'insurance', "CARGO PREMIUM", { contract });
+  return emitCue(addLog(insured, `CARGO INSURED AGAINST RAIDERS: ${contract.title.toUpperCase()}. -${premium} CR`, 'trade'), 'cash');
+};
+
+// An insured job lost to raiders pays out its value
+export const payCargoClaim = (state: GameState, contract: Contract): GameState => {
+  if (!contract.insured) return state;
+  const paid = transact(state, contract.pay, 'insurance', "CARGO CLAIM", { contract });
+  return addLog(paid, `CARGO CLAIM PAID: ${contract.title.toUpperCase()}. +${contract.pay} CR`, 'trade');
+};
+
+// Remember hull lost between two states, forgetting anything too old to count
+export const recordDamage = (prev: GameState, next: GameState): GameState => {
+  const hp = prev.hull - next.hull;
+  if (hp <= 0) return next;
+  const recent = next.damageHistory.filter(d => d.day > next.day - DAMAGE_MEMORY_DAYS);
+  return { ...next, damageHistory: [...recent, { day: next.day, hp }] };
+};
+
+// Part of the midnight rollover
+export const expireCover = (state: GameState): GameState => {
+  if (!state.hullCover || isCovered(state)) return state;
+  return addLog({ ...state, hullCover: null }, "HULL COVER EXPIRED.", 'trade', 'warning');
+};
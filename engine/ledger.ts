@@ -0,0 +1,90 @@
+import { Contract, Faction, GameState, LedgerCategory, LedgerEntry } from '../types';
+import { LEDGER_HISTORY_LENGTH, LOCATIONS } from '../constants';
+
+export interface Booking {
+  faction?: Faction; // Defaults to whoever runs the berth, or neutral in flight
+  contract?: Contract;
+  locationId?: string | null; // Defaults to the berth, or null in flight
+  merge?: boolean; // Fold into the last entry when it's the same line, for running drains
+}
+
+const LEDGER_FOLD = 200; // Oldest lines folded at a time once the ledger is full
+
+export interface ContractProfit {
+  id: string;
+  title: string;
+  net: number;
+  entries: number;
+}
+
+// The one place credits change. Every caller works out the exact amount
+// first (clamping and all) and books it here.
+export const transact = (state: GameState, amount: number, category: LedgerCategory, memo: string, booking: Booking = {}): GameState => {
+  if (amount === 0) return state;
+
+  const locationId = booking.locationId !== undefined ? booking.locationId : state.isFlying ? null : state.currentLocationId;
+  const faction = booking.faction ?? LOCATIONS.find(l => l.id === locationId)?.faction ?? Faction.NEUTRAL;
+  const credits = state.credits + amount;
+  const contract = booking.contract && { id: booking.contract.id, title: booking.contract.title };
+
+  const last = state.ledger[state.ledger.length - 1];
+  if (booking.merge && last && last.category === category && last.memo === memo && last.locationId === locationId) {
+    const merged = { ...last, t: state.gameTime, amount: last.amount + amount, balance: credits };
+    return { ...state, credits, ledger: [...state.ledger.slice(0, -1), merged] };
+  }
+
+  const entry: LedgerEntry = { t: state.gameTime, amount, balance: credits, category, memo, locationId, faction, ...(contract && { contract }) };
+  return { ...state, credits, ledger: compact([...state.ledger, entry]) };
+};
+
+// Once the ledger is full, fold the oldest lines into one "BROUGHT FORWARD"
+// line per category, so category totals still add up over the whole run
+const compact = (ledger: LedgerEntry[]): LedgerEntry[] => {
+  if (ledger.length <= LEDGER_HISTORY_LENGTH) return ledger;
+
+  const folded = ledger.slice(0, LEDGER_FOLD);
+  const t = folded[folded.length - 1].t;
+  let balance = folded[0].balance - folded[0].amount;
+  const forward = Object.entries(getCategoryTotals(folded)).map(([category, amount]) => {
+    balance += amount!;
+    return { t, amount: amount!, balance, category: category as LedgerCategory, memo: "BROUGHT FORWARD", locationId: null, faction: Faction.NEUTRAL };
+  });
+  return [...forward, ...ledger.slice(LEDGER_FOLD)];
+};
+
+export const getCategoryTotals = (ledger: LedgerEntry[]) => {
+  const totals: Partial<Record<LedgerCategory, number>> = {};
+  ledger.forEach(e => { totals[e.category] = (totals[e.category] ?? 0) + e.amount; });
+  return totals;
+};
+
+// Net of everything booked against each job: pay, premiums, claims, fees
+export const getContractProfits = (ledger: LedgerEntry[]): ContractProfit[] => {
+  const byId = new Map<string, ContractProfit>();
+  ledger.forEach(e => {
+    if (!e.contract) return;
+    const row = byId.get(e.contract.id) ?? { id: e.contract.id, title: e.contract.title, net: 0, entries: 0 };
+    byId.set(e.contract.id, { ...row, net: row.net + e.amount, entries: row.entries + 1 });
+  });
+  return [...byId.values()];
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const ledgerToCsv = (ledger: LedgerEntry[]) => {
+  const header = ['tick', 'category', 'memo', 'amount', 'balance', 'location', 'faction', 'contract'];
+  const rows = ledger.map(e => [
+    e.t,
+    e.category,
+    e.memo,
+    e.amount,
+    e.balance,
+    LOCATIONS.find(l => l.id === e.locationId)?.name ?? 'IN FLIGHT',
+    e.faction,
+    e.contract?.title ?? ''
+  ]);
+  return [header, ...rows].map(r => r.map(csvField).join(',')).join('\n');
+};
@@ -0,0 +1,39 @@
+import { GameState, LogCategory, LogEntry, LogSeverity, SoundKind } from '../types';
+import { LOG_OVERLAY_LENGTH, CUE_BUFFER_LENGTH, LOG_HISTORY_LENGTH } from '../constants';
+
+const isPinned = (l: LogEntry) => l.severity === 'critical' && !l.acked;
+
+// Past LOG_HISTORY_LENGTH the oldest entry goes, unless it's still pinned
+export const addLog = (state: GameState, msg: string, category: LogCategory, severity: LogSeverity = 'info'): GameState => {
+  const last = state.logs[state.logs.length - 1];
+  const entry: LogEntry = { id: last ? last.id + 1 : 0, t: state.gameTime, text: msg, severity, category };
+  const logs = [...state.logs, entry];
+  const oldest = logs.length > LOG_HISTORY_LENGTH ? logs.findIndex(l => !isPinned(l)) : -1;
+  if (oldest >= 0) logs.splice(oldest, 1);
+  return { ...state, logs };
+};
+
+// Newest first, for the console overlay
+export const getRecentLogs = (logs: LogEntry[], count = LOG_OVERLAY_LENGTH) => logs.slice(-count).reverse();
+
+// Critical entries nobody has acknowledged yet, newest first
+export const getPinnedLogs = (logs: LogEntry[]) => logs.filter(isPinned).reverse();
+
+// Without an id, clears every pin at once
+export const acknowledgeLog = (state: GameState, id?: number): GameState => {
+  const pinned = getPinnedLogs(state.logs).filter(l => id === undefined || l.id === id);
+  if (pinned.length === 0) return state;
+  const ids = new Set(pinned.map(l => l.id));
+  return { ...state, logs: state.logs.map(l => (ids.has(l.id) ? { ...l, acked: true } : l)) };
+};
+
+// Queue a sound for the UI. Cues carry a sequence number so a renderer that
+// skipped a few steps can still tell which ones it has not played yet.
+export const emitCue = (state: GameState, kind: SoundKind): GameState => {
+  const seq = state.cueSeq + 1;
+  return {
+    ...state,
+    cueSeq: seq,
+    cues: [...state.cues, { seq, kind }].slice(-CUE_BUFFER_LENGTH)
+  };
+};
@@ -0,0 +1,165 @@
+import { Commodity, CommodityId, GameState, MarketProfile, MarketStock } from '../types';
+import { COMMODITIES, LOCATIONS, MARKETS } from '../constants';
+import { getHoldSpace } from './contracts';
+import { addLog, emitCue } from './log';
+import { refuseService, servicesOpen } from './reputation';
+import { getStationEvent } from './calendar';
+import { transact } from './ledger';
+
+const RECOVERY_RATE = 1 / 2000; // Fraction of the gap to equilibrium closed per tick
+const RESTOCK_SHARE = 0.5; // Of what's still off equilibrium, made good by the nightly delivery
+const PRICE_ELASTICITY = 0.5;
+const MIN_PRICE_FACTOR = 0.5;
+const MAX_PRICE_FACTOR = 2.5;
+const SPREAD = 0.08; // Traders buy low and sell high around the mid price
+const MARKET_DAY_SPREAD = 0.02; // Competition on market day squeezes the margin
+
+export interface MarketQuote {
+  commodity: Commodity;
+  stock: number;
+  buyPrice: number; // What the player pays for the next unit
+  sellPrice: number; // What the player gets for the next unit
+  owned: number;
+}
+
+export const createMarkets = (time: number): GameState['markets'] => {
+  const markets: GameState['markets'] = {};
+  Object.entries(MARKETS).forEach(([locationId, goods]) => {
+    markets[locationId] = {};
+    (Object.entries(goods) as [CommodityId, MarketProfile][]).forEach(([id, profile]) => {
+      markets[locationId][id] = { stock: profile.equilibrium, updatedAt: time };
+    });
+  });
+  return markets;
+};
+
+// Stock drifts back towards equilibrium exponentially, so it can be
+// evaluated lazily at any tick instead of being stepped every frame
+const currentStock = (entry: MarketStock, profile: MarketProfile, now: number) => {
+  const elapsed = Math.max(0, now - entry.updatedAt);
+  const decay = Math.exp(-RECOVERY_RATE * elapsed);
+  return profile.equilibrium + (entry.stock - profile.equilibrium) * decay;
+};
+
+// Part of the midnight rollover: each station's delivery makes up part of
+// whatever gap trading has left, on top of the drift so far. A run on a
+// good still shows the next day, just less.
+export const restockMarkets = (state: GameState): GameState['markets'] => {
+  const now = state.gameTime;
+  const markets: GameState['markets'] = {};
+  Object.entries(MARKETS).forEach(([locationId, goods]) => {
+    markets[locationId] = {};
+    (Object.entries(goods) as [CommodityId, MarketProfile][]).forEach(([id, profile]) => {
+      const entry = state.markets[locationId]?.[id];
+      const stock = entry ? currentStock(entry, profile, now) : profile.equilibrium;
+      markets[locationId][id] = { stock: stock + (profile.equilibrium - stock) * RESTOCK_SHARE, updatedAt: now };
+    });
+  });
+  return markets;
+};
+
+const midPrice = (commodity: Commodity, profile: MarketProfile, stock: number) => {
+  const scarcity = Math.pow(profile.equilibrium / Math.max(stock, 1), PRICE_ELASTICITY);
+  const factor = Math.min(MAX_PRICE_FACTOR, Math.max(MIN_PRICE_FACTOR, scarcity));
+  return commodity.basePrice * profile.bias * factor;
+};
+
+const getSpread = (locationId: string, time: number) => {
+  return getStationEvent(locationId, time)?.effect === 'market-day' ? MARKET_DAY_SPREAD : SPREAD;
+};
+
+const buyPriceAt = (commodity: Commodity, profile: MarketProfile, stock: number, spread: number) => {
+  return Math.ceil(midPrice(commodity, profile, stock) * (1 + spread));
+};
+
+const sellPriceAt = (commodity: Commodity, profile: MarketProfile, stock: number, spread: number) => {
+  return Math.floor(midPrice(commodity, profile, stock) * (1 - spread));
+};
+
+export const getMarketQuotes = (state: GameState, locationId: string): MarketQuote[] => {
+  const profiles = MARKETS[locationId];
+  const market = state.markets[locationId];
+  if (!profiles || !market) return [];
+  const spread = getSpread(locationId, state.gameTime);
+
+  return COMMODITIES.flatMap(commodity => {
+    const profile = profiles[commodity.id];
+    const entry = market[commodity.id];
+    if (!profile || !entry) return [];
+    const stock = currentStock(entry, profile, state.gameTime);
+    return [{
+      commodity,
+      stock: Math.floor(stock),
+      buyPrice: buyPriceAt(commodity, profile, stock, spread),
+      sellPrice: sellPriceAt(commodity, profile, stock, spread),
+      owned: state.cargoGoods[commodity.id] ?? 0
+    }];
+  });
+};
+
+const withStock = (state: GameState, locationId: string, id: CommodityId, stock: number): GameState => ({
+  ...state,
+  markets: {
+    ...state.markets,
+    [locationId]: { ...state.markets[locationId], [id]: { stock, updatedAt: state.gameTime } }
+  }
+});
+
+export const buyGoods = (state: GameState, id: CommodityId, quantity: number): GameState => {
+  const locationId = state.currentLocationId;
+  const profile = MARKETS[locationId]?.[id];
+  const entry = state.markets[locationId]?.[id];
+  const commodity = COMMODITIES.find(c => c.id === id);
+  if (state.isFlying || !profile || !entry || !commodity || quantity <= 0) return state;
+  if (!servicesOpen(state, LOCATIONS.find(l => l.id === locationId))) return refuseService(state);
+
+  let stock = currentStock(entry, profile, state.gameTime);
+  const units = Math.min(quantity, Math.floor(stock), getHoldSpace(state));
+  if (units <= 0) {
+    return emitCue(addLog(state, "ERROR: NO HOLD SPACE OR STOCK.", 'trade', 'warning'), 'error');
+  }
+
+  // Each unit bought thins the stock and nudges the price up
+  const spread = getSpread(locationId, state.gameTime);
+  let cost = 0;
+  for (let i = 0; i < units; i++) {
+    cost += buyPriceAt(commodity, profile, stock, spread);
+    stock -= 1;
+  }
+  if (state.credits < cost) {
+    return emitCue(addLog(state, "INSUFFICIENT FUNDS.", 'trade', 'warning'), 'error');
+  }
+
+  const bought = withStock(transact({
+    ...state,
+    cargoGoods: { ...state.cargoGoods, [id]: (state.cargoGoods[id] ?? 0) + units }
+  }, -cost, 'trade', `BUY ${units}U ${commodity.name.toUpperCase()}`), locationId, id, stock);
+  return emitCue(addLog(bought, `BOUGHT ${units}U ${commodity.name.toUpperCase()}. -${cost} CR`, 'trade'), 'cash');
+};
+
+export const sellGoods = (state: GameState, id: CommodityId, quantity: number): GameState => {
+  const locationId = state.currentLocationId;
+  const profile = MARKETS[locationId]?.[id];
+  const entry = state.markets[locationId]?.[id];
+  const commodity = COMMODITIES.find(c => c.id === id);
+  const owned = state.cargoGoods[id] ?? 0;
+  if (state.isFlying || !profile || !entry || !commodity || quantity <= 0 || owned <= 0) return state;
+  if (!servicesOpen(state, LOCATIONS.find(l => l.id === locationId))) return refuseService(state);
+
+  let stock = currentStock(entry, profile, state.gameTime);
+  const units = Math.min(quantity, owned);
+
+  // Each unit sold deepens the stock and drags the price down
+  const spread = getSpread(locationId, state.gameTime);
+  let revenue = 0;
+  for (let i = 0; i < units; i++) {
+    revenue += sellPriceAt(commodity, profile, stock, spread);
+    stock += 1;
+  }
+
+  const sold = withStock(transact({
+    ...state,
+    cargoGoods: { ...state.cargoGoods, [id]: owned - units }
+  }, revenue, 'trade', `SELL ${units}U ${commodity.name.toUpperCase()}`), locationId, id, stock);
+  return emitCue(addLog(sold, `SOLD ${units}U ${commodity.name.toUpperCase()}. +${revenue} CR`, 'trade'), 'cash');
+};
@@ -0,0 +1,37 @@
+import { Coordinates, Location, CENTER } from '../types';
+import { LOCATIONS } from '../constants';
+
+// Where a single location sits at a given time
+export const getPositionAt = (loc: Location, time: number): Coordinates => {
+  if (!loc.orbitRadius || loc.orbitSpeed === undefined) return loc.coords;
+
+  // Calculate angle: Initial + (Speed * Time)
+  const angleDeg = (loc.initialAngle || 0) + (loc.orbitSpeed * time);
+  const angleRad = angleDeg * (Math.PI / 180);
+
+  return {
+    x: CENTER.x + loc.orbitRadius * Math.cos(angleRad),
+    y: CENTER.y + loc.orbitRadius * Math.sin(angleRad)
+  };
+};
+
+// Helper to get coordinates based on time
+export const getDynamicLocations = (time: number): Location[] => {
+  return LOCATIONS.map(loc => {
+    if (!loc.orbitRadius || loc.orbitSpeed === undefined) return loc;
+    return { ...loc, coords: getPositionAt(loc, time) };
+  });
+};
+
+export const getLocationAt = (id: string | null, time: number): Location | undefined => {
+  const loc = id ? LOCATIONS.find(l => l.id === id) : undefined;
+  if (!loc?.orbitRadius || loc.orbitSpeed === undefined) return loc;
+  return { ...loc, coords: getPositionAt(loc, time) };
+};
+
+export const getDistance = (p1: Coordinates, p2: Coordinates) => {
+  return Math.sqrt(
+    Math.pow(p2.x - p1.x, 2) +
+    Math.pow(p2.y - p1.y, 2)
+  );
+};
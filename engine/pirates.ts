@@ -0,0 +1,134 @@
+import { Contract, Coordinates, Faction, GameState, PirateResponse } from '../types';
+import { COMMODITIES, LOCATIONS } from '../constants';
+import { getDistance, getPositionAt } from './orbits';
+import { getShipPosition } from './flight';
+import { forfeitContracts } from './contracts';
+import { addLog, emitCue } from './log';
+import { Rng } from './rng';
+import { adjustReputation } from './reputation';
+import { settleLoan } from './bank';
+import { transact } from './ledger';
+import { getShipSystemId, isJump } from './gates';
+
+const PIRATE_HAVENS = ['moon-bloodrust', 'station-x99', 'moon-wreckyard', 'station-vanta']; // Where raiders base out of
+const HAVEN_REACH = 200; // AU from a haven where raiders still prowl
+const BASE_CHANCE = 0.0006; // Per tick, before the multipliers below
+const RISK_FACTOR: Record<Contract['riskLevel'], number> = { LOW: 0.2, MED: 1, HIGH: 2.5 };
+const PIRATE_SPEED = 1.8; // Raider cruising speed, for outrunning them
+export const RUN_FUEL = 20;
+const TRIBUTE_FRACTION = 0.15; // Share of the cargo's value they demand
+const MIN_TRIBUTE = 50;
+const BOUNTY_PER_SHIP = 60;
+const COLLECTOR_GRUDGE = 5; // Standing lost with a lender for shooting at its collectors
+
+const getGoodsValue = (state: GameState) => {
+  return Object.entries(state.cargoGoods).reduce((sum, [id, units]) =>
+    sum + (units ?? 0) * (COMMODITIES.find(c => c.id === id)?.basePrice ?? 0), 0);
+};
+
+// What the raiders think we're carrying: job pay plus goods at list price
+export const getCargoValue = (state: GameState) => {
+  return state.activeContracts.reduce((sum, c) => sum + c.pay, getGoodsValue(state));
+};
+
+const getRiskFactor = (state: GameState) => {
+  return state.activeContracts.reduce((worst, c) => Math.max(worst, RISK_FACTOR[c.riskLevel]), RISK_FACTOR.LOW);
+};
+
+// Rises sharply inside HAVEN_REACH of a haven in the same system
+const getHavenFactor = (position: Coordinates, time: number, system: string) => {
+  const havens = LOCATIONS.filter(l => l.system === system && PIRATE_HAVENS.includes(l.id));
+  const nearest = Math.min(Infinity, ...havens.map(haven => getDistance(position, getPositionAt(haven, time))));
+  return 0.25 + 2.75 * Math.max(0, 1 - nearest / HAVEN_REACH);
+};
+
+// Per-tick odds of being jumped at `position` in `system`, given what's aboard
+export const getPirateChance = (state: GameState, position: Coordinates, time: number, system: string) => {
+  const valueFactor = Math.min(3, 0.5 + getCargoValue(state) / 1000);
+  return BASE_CHANCE * getRiskFactor(state) * valueFactor * getHavenFactor(position, time, system);
+};
+
+export const getEscapeChance = (state: GameState) => {
+  return Math.max(0.1, Math.min(0.9, 0.5 + (state.ship.speed - PIRATE_SPEED) * 0.5));
+};
+
+export const getFightChance = (state: GameState) => {
+  const ships = state.encounter?.ships ?? 1;
+  const condition = state.hull / state.ship.maxHull;
+  return Math.max(0.1, Math.min(0.85, 0.35 + condition * 0.4 - (ships - 1) * 0.15));
+};
+
+export const rollPirates = (state: GameState, rng: Rng): GameState => {
+  if (!state.isFlying || isJump(state.flightPlan) || state.pendingEvent || state.encounter) return state;
+  if (!rng.chance(getPirateChance(state, getShipPosition(state), state.gameTime, getShipSystemId(state)))) return state;
+
+  const value = getCargoValue(state);
+  const ships = 1 + (getRiskFactor(state) >= RISK_FACTOR.HIGH ? 1 : 0) + (value > 1500 ? 1 : 0);
+  const bearings = Array.from({ length: ships }, () => rng.int(360));
+  const encounter = { ships, tribute: Math.max(MIN_TRIBUTE, Math.round(value * TRIBUTE_FRACTION)), bearings };
+
+  const msg = ships === 1 ? "ALERT: RAIDER ON INTERCEPT." : `ALERT: ${ships} RAIDERS ON INTERCEPT.`;
+  return emitCue(addLog({ ...state, encounter }, msg, 'combat', 'warning'), 'alert');
+};
+
+// Everything aboard is gone: goods, and the jobs with them
+const loseCargo = (state: GameState, reason: string, claimable = false): GameState => {
+  return forfeitContracts({ ...state, cargoGoods: {} }, state.activeContracts, reason, claimable);
+};
+
+export const respondToPirates = (state: GameState, rng: Rng, response: PirateResponse): GameState => {
+  const encounter = state.encounter;
+  if (!encounter) return state;
+  const clear = { ...state, encounter: null };
+  const lender = encounter.collector;
+
+  switch (response) {
+    case 'tribute': {
+      if (state.credits < encounter.tribute) {
+        return emitCue(addLog(state, "INSUFFICIENT FUNDS.", 'combat', 'warning'), 'error');
+      }
+      if (lender) {
+        const paid = transact(clear, -encounter.tribute, 'finance', "ARREARS TO COLLECTORS", { faction: lender });
+        return emitCue(addLog(settleLoan(paid, lender, encounter.tribute), `ARREARS SETTLED. -${encounter.tribute} CR`, 'combat'), 'cash');
+      }
+      const paid = transact(clear, -encounter.tribute, 'penalty', "RAIDER TRIBUTE", { faction: Faction.X99 });
+      return emitCue(addLog(paid, `TRIBUTE PAID. -${encounter.tribute} CR`, 'combat'), 'cash');
+    }
+    case 'dump': {
+      // Collectors take the goods in part payment; raiders just take them
+      if (lender) {
+        const taken = settleLoan(loseCargo(clear, 'CARGO SEIZED'), lender, getGoodsValue(state));
+        return addLog(taken, "COLLECTORS TAKE THE HOLD IN LIEU.", 'combat', 'warning');
+      }
+      return addLog(loseCargo(clear, 'CARGO DUMPED'), "HOLD VENTED. RAIDERS BREAK OFF.", 'combat', 'warning');
+    }
+    case 'run': {
+      const escaped = rng.chance(getEscapeChance(state));
+      const burned = { ...clear, fuel: Math.max(0, clear.fuel - RUN_FUEL) };
+      if (escaped) return addLog(burned, "OUTRAN THE RAIDERS.", 'combat');
+      const damage = 10 * encounter.ships;
+      return emitCue(addLog({ ...burned, hull: burned.hull - damage }, `CAUGHT. TOOK FIRE BREAKING AWAY. HULL -${damage}`, 'combat', 'warning'), 'alert');
+    }
+    case 'fight': {
+      const won = rng.chance(getFightChance(state));
+      if (won && lender) {
+        const damage = 5 * encounter.ships;
+        const spurned = adjustReputation({ ...clear, hull: clear.hull - damage }, lender, -COLLECTOR_GRUDGE);
+        return emitCue(addLog(spurned, `COLLECTORS DRIVEN OFF. HULL -${damage}. THEY'LL BE BACK.`, 'combat', 'warning'), 'alert');
+      }
+      if (won) {
+        const bounty = BOUNTY_PER_SHIP * encounter.ships;
+        const damage = 5 * encounter.ships;
+        // Liberty pays bounties on raiders; the Fringe takes it personally
+        const rewarded = transact({ ...clear, hull: clear.hull - damage }, bounty, 'income', "RAIDER BOUNTY", { faction: Faction.X33 });
+        const paid = adjustReputation(adjustReputation(rewarded, Faction.X33, 2), Faction.X99, -2);
+        return emitCue(addLog(paid, `RAIDERS DRIVEN OFF. BOUNTY +${bounty} CR, HULL -${damage}`, 'combat'), 'cash');
+      }
+      const damage = 15 * encounter.ships;
+      const beaten = addLog({ ...clear, hull: clear.hull - damage }, `OUTGUNNED. HULL -${damage}`, 'combat', 'warning');
+      return emitCue(beaten.hull > 0 ? loseCargo(beaten, 'CARGO PLUNDERED', true) : beaten, 'alert');
+    }
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types';
+import { createInitialState, step } from './simulation';
+import { ensureContent } from './content';
+import { REPLAY_VERSION, buildKeyframes, buildReplay, parseReplay, seekReplay } from './replay';
+
+const SEED = 'TAPE01';
+
+// A short run: take a job, fly it, let the clock run on, then refuel
+const playRun = (): GameState => {
+  let state = createInitialState(SEED, `${SEED}:live`);
+  const contract = state.contracts[0];
+  state = step(state, { type: 'ACCEPT_CONTRACT', contractId: contract.id });
+  state = step(state, { type: 'TRAVEL', destinationId: contract.destinationId });
+  for (let i = 0; i < 4000; i++) {
+    if (state.pendingEvent) state = step(state, { type: 'RESOLVE_EVENT', choice: 0 });
+    else if (state.encounter) state = step(state, { type: 'RESPOND_PIRATES', response: 'tribute' });
+    else state = step(state, { type: 'TICK' });
+  }
+  return step(state, { type: 'REFUEL', amount: 50 });
+};
+
+// The run id and pending cues belong to the live session, not the rules
+const comparable = ({ runId, cues, ...rest }: GameState) => rest;
+
+describe('replay', () => {
+  it('plays a recorded run back to the same state', () => {
+    ensureContent([], SEED);
+    const live = playRun();
+    const log = parseReplay(JSON.stringify(buildReplay(live)));
+    expect(log).not.toBeNull();
+
+    const replayed = seekReplay(log!, buildKeyframes(log!), log!.endTime).state;
+    expect(comparable(replayed)).toEqual(comparable(live));
+  });
+
+  it('turns away tapes recorded under other rules', () => {
+    const tape = { ...buildReplay(createInitialState(SEED)), version: REPLAY_VERSION - 1 };
+    expect(parseReplay(JSON.stringify(tape))).toBeNull();
+  });
+});
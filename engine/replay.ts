@@ -0,0 +1,94 @@
+import { GameState, ReplayInput, ReplayLog } from '../types';
+import { createInitialState, step } from './simulation';
+
+// Bump whenever a rule change would play the same inputs out differently.
+// Tapes are only ever replayed under the rules they were recorded with;
+// anything else is turned away rather than left to drift.
+// v2: flight, contracts, events, markets and star systems since v1
+// v3: generated systems draw their own stations and moons
+export const REPLAY_VERSION = 3;
+const KEYFRAME_INTERVAL = 600;
+
+export interface ReplayKeyframe {
+  state: GameState;
+  nextInput: number; // Index of the first input not yet applied
+}
+
+export const buildReplay = (state: GameState): ReplayLog => ({
+  version: REPLAY_VERSION,
+  seed: state.seed,
+  endTime: state.gameTime,
+  inputs: state.inputLog,
+  packs: state.contentPacks,
+  system: state.systemSeed
+});
+
+// Advance `state` to `targetTime`, applying inputs from `inputs[cursor]`
+// onwards as their ticks come up. Inputs share the tick they were recorded
+// on and are applied before that tick's TICK, mirroring live play.
+const simulate = (state: GameState, inputs: ReplayInput[], cursor: number, targetTime: number) => {
+  let current = state;
+  let next = cursor;
+
+  while (!current.isGameOver) {
+    while (next < inputs.length && inputs[next].t === current.gameTime) {
+      current = step(current, inputs[next].a);
+      next++;
+    }
+    if (current.gameTime >= targetTime) break;
+    const ticked = step(current, { type: 'TICK' });
+    if (ticked.gameTime === current.gameTime) break; // Held on an event the run never resolved
+    current = ticked;
+  }
+
+  return { state: current, nextInput: next };
+};
+
+// Snapshots every KEYFRAME_INTERVAL ticks so the viewer can scrub without
+// re-simulating from the first tick each time. The tape's own packs and
+// system must already be in force, as for any run.
+export const buildKeyframes = (log: ReplayLog): ReplayKeyframe[] => {
+  const keyframes: ReplayKeyframe[] = [{ state: createInitialState(log.seed), nextInput: 0 }];
+  let frame = keyframes[0];
+
+  while (frame.state.gameTime < log.endTime && !frame.state.isGameOver) {
+    const target = Math.min(log.endTime, frame.state.gameTime + KEYFRAME_INTERVAL);
+    frame = simulate(frame.state, log.inputs, frame.nextInput, target);
+    keyframes.push(frame);
+  }
+
+  return keyframes;
+};
+
+export const seekReplay = (log: ReplayLog, keyframes: ReplayKeyframe[], time: number): ReplayKeyframe => {
+  let base = keyframes[0];
+  for (const frame of keyframes) {
+    if (frame.state.gameTime > time) break;
+    base = frame;
+  }
+  return simulate(base.state, log.inputs, base.nextInput, time);
+};
+
+// Continue forward from an already-simulated frame (used for playback)
+export const advanceReplay = (log: ReplayLog, frame: ReplayKeyframe, ticks: number): ReplayKeyframe => {
+  const target = Math.min(log.endTime, frame.state.gameTime + ticks);
+  return simulate(frame.state, log.inputs, frame.nextInput, target);
+};
+
+export const parseReplay = (json: string): ReplayLog | null => {
+  try {
+    const raw = JSON.parse(json);
+    if (raw?.version !== REPLAY_VERSION || typeof raw.seed !== 'string' || typeof raw.endTime !== 'number' || !Array.isArray(raw.inputs)) {
+      return null;
+    }
+    const inputs = raw.inputs.filter((i: any) => typeof i?.t === 'number' && typeof i?.a?.type === 'string');
+    // Tapes from before content packs were played on the base set, and
+    // from before generated systems on the classic layout
+    const packs = Array.isArray(raw.packs) ? raw.packs.filter((id: unknown) => typeof id === 'string') : [];
+    const system = typeof raw.system === 'string' ? raw.system : null;
+    return { version: raw.version, seed: raw.seed, endTime: raw.endTime, inputs, packs, system };
+  } catch (e) {
+    console.warn("Replay parse failed:", e);
+    return null;
+  }
+};
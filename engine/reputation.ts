@@ -0,0 +1,63 @@
+import { Faction, GameState, Location, LocationType, RepTier, RepTierProfile } from '../types';
+import { REP_TIERS, REPAIR_COST_PER_HP } from '../constants';
+import { addLog, emitCue } from './log';
+
+const TIER_ORDER: RepTier[] = REP_TIERS.map(t => t.tier);
+
+export const getTierProfile = (state: GameState, faction: Faction): RepTierProfile => {
+  // Independents deal with everyone on the same terms
+  if (faction === Faction.NEUTRAL) return REP_TIERS.find(t => t.tier === 'neutral')!;
+
+  const rep = state.reputation[faction];
+  let profile = REP_TIERS[0];
+  REP_TIERS.forEach(t => {
+    if (rep >= t.minRep) profile = t;
+  });
+  return profile;
+};
+
+export const getRepTier = (state: GameState, faction: Faction): RepTier => {
+  return getTierProfile(state, faction).tier;
+};
+
+export const tierAtLeast = (tier: RepTier, required: RepTier) => {
+  return TIER_ORDER.indexOf(tier) >= TIER_ORDER.indexOf(required);
+};
+
+export const isHostile = (state: GameState, faction: Faction) => {
+  return getRepTier(state, faction) === 'hostile';
+};
+
+// Hostile stations will not clear you to dock; moons have open pads
+export const canDockAt = (state: GameState, location: Location) => {
+  return location.type !== LocationType.STATION || !isHostile(state, location.faction);
+};
+
+// Repair, trade, shipyard and the contract board are closed to enemies.
+// Fuel is still sold, at the hostile markup, so nobody gets stranded.
+export const servicesOpen = (state: GameState, location: Location | undefined) => {
+  return !!location && !isHostile(state, location.faction);
+};
+
+export const adjustReputation = (state: GameState, faction: Faction, delta: number): GameState => {
+  if (faction === Faction.NEUTRAL || delta === 0) return state;
+  return { ...state, reputation: { ...state.reputation, [faction]: state.reputation[faction] + delta } };
+};
+
+export const refuseService = (state: GameState): GameState => {
+  return emitCue(addLog(state, "ERROR: SERVICES REFUSED. HOSTILE TERRITORY.", 'trade', 'warning'), 'error');
+};
+
+export const getFuelPrice = (state: GameState, location: Location | undefined): number | null => {
+  if (!location?.fuelPrice) return null;
+  return Math.round(location.fuelPrice * getTierProfile(state, location.faction).priceMultiplier * 100) / 100;
+};
+
+// What `litres` costs at `price`; the pump, the autopilot and the route
+// planner all charge by this
+export const getRefuelCost = (litres: number, price: number) => Math.floor(litres * price);
+
+export const getRepairPrice = (state: GameState, location: Location | undefined): number => {
+  if (!location) return REPAIR_COST_PER_HP;
+  return Math.round(REPAIR_COST_PER_HP * getTierProfile(state, location.faction).priceMultiplier * 100) / 100;
+};
@@ -0,0 +1,46 @@
+// Seeded PRNG (mulberry32). The generator state is a single 32-bit integer
+// kept in GameState, so a run is fully described by its seed plus its inputs.
+
+export interface Rng {
+  next(): number; // [0, 1)
+  int(maxExclusive: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: T[]): T;
+  readonly state: number;
+}
+
+export const createRng = (initialState: number): Rng => {
+  let a = initialState >>> 0;
+
+  const next = () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (maxExclusive) => Math.floor(next() * maxExclusive),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    get state() { return a; }
+  };
+};
+
+// Turn a player-typed seed into the generator's starting state (FNV-1a)
+export const hashSeed = (seed: string): number => {
+  let h = 0x811C9DC5;
+  const normalized = seed.trim().toUpperCase();
+  for (let i = 0; i < normalized.length; i++) {
+    h ^= normalized.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Fresh seed for a new run. The only unseeded roll in the game, by design.
+export const randomSeed = (): string => {
+  return Math.floor(Math.random() * 36 ** 6).toString(36).toUpperCase().padStart(6, '0');
+};
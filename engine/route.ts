@@ -0,0 +1,131 @@
+import { Coordinates, FlightPlan, GameState, Route, RouteLeg, RouteRanking } from '../types';
+import { FLIGHT_EVENTS, LOCATIONS } from '../constants';
+import { getLocationAt } from './orbits';
+import { planLeg } from './flight';
+import { FLIGHT_EVENT_CHANCE } from './events';
+import { RUN_FUEL, getPirateChance } from './pirates';
+import { canDockAt, getRefuelCost, getFuelPrice } from './reputation';
+import { getGateStops, getSystemId, isJump } from './gates';
+
+const MAX_REFUEL_STOPS = 2; // Waypoints on top of the gates a route has to pass
+const RISK_SAMPLES = 8; // Points per leg where pirate odds are sampled
+// Litres we'd like in hand past what a leg burns: the thirstiest thing a
+// flight event can do to the tanks, plus a burn to outrun raiders or
+// collectors. A long leg can go wrong more than once, so this is a cushion,
+// not a promise.
+const FUEL_RESERVE = RUN_FUEL + Math.max(0, ...FLIGHT_EVENTS.flatMap(e => e.choices.flatMap(c => [c.success, c.failure])).map(o => -(o?.fuel ?? 0)));
+
+// Odds of getting through a leg with no incident and no raiders. Jumps
+// are always clean.
+const getLegSafety = (state: GameState, plan: FlightPlan) => {
+  if (isJump(plan)) return 1;
+  const system = getSystemId(plan.destinationId)!;
+  let safety = Math.pow(1 - FLIGHT_EVENT_CHANCE, plan.duration);
+  for (let i = 0; i < RISK_SAMPLES; i++) {
+    const f = (i + 0.5) / RISK_SAMPLES;
+    const position = { x: plan.from.x + (plan.to.x - plan.from.x) * f, y: plan.from.y + (plan.to.y - plan.from.y) * f };
+    const pirates = getPirateChance(state, position, plan.departTime + plan.duration * f, system);
+    safety *= Math.pow(1 - pirates, plan.duration / RISK_SAMPLES);
+  }
+  return safety;
+};
+
+// Litres a leg would like to launch with. Jumps can't be waylaid, so they
+// need no reserve.
+const getFuelWanted = (plan: FlightPlan) => plan.fuel + (isJump(plan) ? 0 : FUEL_RESERVE);
+
+// Litres to buy at a waypoint so the next leg launches with the reserve in
+// hand, or as near it as the tank allows. The autopilot uses the same rule,
+// so a plotted route spends exactly what was quoted.
+export const getRefuelNeeded = (fuel: number, plan: FlightPlan, maxFuel: number) => {
+  return Math.max(0, Math.min(Math.ceil(getFuelWanted(plan) - fuel), maxFuel - fuel));
+};
+
+// Every itinerary to `destinationId` we can afford to fly right now, going
+// direct or through up to two refuelling stops, and through whatever gates
+// lie between here and there. Legs are intercept courses (or jumps)
+// chained in time: each one departs the tick the previous one docks.
+export const planRoutes = (state: GameState, destinationId: string): Route[] => {
+  const origin = getLocationAt(state.currentLocationId, state.gameTime);
+  const dest = LOCATIONS.find(l => l.id === destinationId);
+  if (!origin || !dest || origin.id === dest.id || !canDockAt(state, dest)) return [];
+
+  // Stops the route must make, in order; refuelling stops go in between
+  const gates = getGateStops(origin.id, dest.id);
+  if (!gates) return [];
+  const required = [...gates, dest.id];
+
+  const waypoints = LOCATIONS.filter(l =>
+    l.id !== origin.id && !required.includes(l.id) && canDockAt(state, l) && getFuelPrice(state, l) !== null
+  );
+
+  // Routes share their opening legs, so each leg's odds are worked out once
+  const safety = new Map<FlightPlan, number>();
+  const legSafety = (plan: FlightPlan) => {
+    if (!safety.has(plan)) safety.set(plan, getLegSafety(state, plan));
+    return safety.get(plan)!;
+  };
+
+  const routes: Route[] = [];
+  const extend = (from: Coordinates, time: number, fuel: number, credits: number, legs: RouteLeg[], visited: string[], reached: number, lowReserve: boolean) => {
+    const stopId = visited[visited.length - 1];
+    const price = legs.length > 0 ? getFuelPrice(state, LOCATIONS.find(l => l.id === stopId)) : null;
+    const mustNext = LOCATIONS.find(l => l.id === required[reached])!;
+    // planLeg turns down waypoints outside the system we're in
+    const nextStops = legs.length - reached < MAX_REFUEL_STOPS ? [mustNext, ...waypoints] : [mustNext];
+
+    nextStops.forEach(next => {
+      if (visited.includes(next.id)) return;
+      const plan = planLeg(stopId, from, next.id, time, state.ship);
+      if (!plan) return;
+
+      // Top up at the waypoint we're sitting at, if that's what it takes
+      const refuel = price !== null ? getRefuelNeeded(fuel, plan, state.ship.maxFuel) : 0;
+      const refuelCost = price !== null ? getRefuelCost(refuel, price) : 0;
+      const toll = plan.toll ?? 0;
+      if (fuel + refuel < plan.fuel || refuelCost + toll > credits) return;
+      const short = lowReserve || fuel + refuel < getFuelWanted(plan);
+
+      const done = legs.length > 0
+        ? [...legs.slice(0, -1), { ...legs[legs.length - 1], refuel, refuelCost }]
+        : legs;
+      const chained = [...done, { plan, refuel: 0, refuelCost: 0 }];
+      const arrivalTime = plan.departTime + plan.duration;
+
+      if (next.id === dest.id) {
+        routes.push({
+          legs: chained,
+          arrivalTime,
+          fuelCost: chained.reduce((sum, leg) => sum + leg.refuelCost, 0),
+          tolls: chained.reduce((sum, leg) => sum + (leg.plan.toll ?? 0), 0),
+          risk: 1 - chained.reduce((odds, leg) => odds * legSafety(leg.plan), 1),
+          lowReserve: short
+        });
+        return;
+      }
+      extend(plan.to, arrivalTime, fuel + refuel - plan.fuel, credits - refuelCost - toll, chained, [...visited, next.id], reached + (next === mustNext ? 1 : 0), short);
+    });
+  };
+
+  extend(origin.coords, state.gameTime, state.fuel, state.credits, [], [origin.id], 0, false);
+  return routes;
+};
+
+const RANKINGS: Record<RouteRanking, (a: Route, b: Route) => number> = {
+  time: (a, b) => a.arrivalTime - b.arrivalTime || a.fuelCost - b.fuelCost,
+  cost: (a, b) => a.fuelCost + a.tolls - (b.fuelCost + b.tolls) || a.arrivalTime - b.arrivalTime,
+  // Running without the reserve is a risk the odds don't show
+  risk: (a, b) => Number(a.lowReserve) - Number(b.lowReserve) || a.risk - b.risk || a.arrivalTime - b.arrivalTime
+};
+
+export const rankRoutes = (routes: Route[], by: RouteRanking): Route[] => {
+  return [...routes].sort(RANKINGS[by]);
+};
+
+// Stops the autopilot flies through, in order
+export const getRouteStops = (route: Route): string[] => {
+  return route.legs.map(leg => leg.plan.destinationId);
+};
+
+// Stable identity for a route, so a pick survives re-ranking as time moves
+export const getRouteKey = (route: Route) => getRouteStops(route).join('>');
@@ -0,0 +1,61 @@
+import { GameState, Location, LocationType, ShipyardProfile, UpgradeKind, UpgradeLine, UpgradeTier } from '../types';
+import { LOCATIONS, SHIP_UPGRADES, SHIPYARDS } from '../constants';
+import { addLog, emitCue } from './log';
+import { servicesOpen } from './reputation';
+import { transact } from './ledger';
+
+export interface UpgradeOffer {
+  line: UpgradeLine;
+  currentTier: number;
+  next: UpgradeTier | null; // null when maxed out or not stocked here
+  price: number;
+}
+
+// Only stations run a yard
+export const getShipyard = (location: Location | undefined): ShipyardProfile | null => {
+  if (!location || location.type !== LocationType.STATION) return null;
+  return SHIPYARDS[location.faction] ?? null;
+};
+
+export const getUpgradeOffers = (state: GameState, location: Location | undefined): UpgradeOffer[] => {
+  const yard = getShipyard(location);
+  if (!yard || !servicesOpen(state, location)) return [];
+
+  return SHIP_UPGRADES.map(line => {
+    const currentTier = state.upgrades[line.kind];
+    const nextTier = currentTier + 1;
+    const stocked = nextTier <= yard.maxTier[line.kind] && nextTier < line.tiers.length;
+    const next = stocked ? line.tiers[nextTier] : null;
+    return {
+      line,
+      currentTier,
+      next,
+      price: next ? Math.round(next.price * yard.priceMultiplier) : 0
+    };
+  });
+};
+
+export const buyUpgrade = (state: GameState, kind: UpgradeKind): GameState => {
+  if (state.isFlying) return state;
+
+  const location = LOCATIONS.find(l => l.id === state.currentLocationId);
+  const offer = getUpgradeOffers(state, location).find(o => o.line.kind === kind);
+  if (!offer?.next) return state;
+
+  if (state.credits < offer.price) {
+    return emitCue(addLog(state, "INSUFFICIENT FUNDS.", 'trade', 'warning'), 'error');
+  }
+
+  const stat = offer.line.stat;
+  const ship = { ...state.ship, [stat]: offer.next.value };
+  // New plating arrives undamaged, so it adds to the current hull too
+  const hull = stat === 'maxHull' ? state.hull + (ship.maxHull - state.ship.maxHull) : state.hull;
+
+  const upgraded = transact({
+    ...state,
+    ship,
+    hull,
+    upgrades: { ...state.upgrades, [kind]: offer.currentTier + 1 }
+  }, -offer.price, 'upgrade', offer.next.name.toUpperCase());
+  return emitCue(addLog(upgraded, `INSTALLED ${offer.next.name.toUpperCase()}. -${offer.price} CR`, 'trade'), 'cash');
+};
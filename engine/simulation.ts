@@ -0,0 +1,279 @@
+import { GameAction, GameState } from '../types';
+import { FACTIONS, INITIAL_SHIP_STATS, INITIAL_UPGRADES, LOCATIONS } from '../constants';
+import { getRefuelCost, getFuelPrice, getRepairPrice, refuseService, servicesOpen } from './reputation';
+import { abandonContract, assignDeadline, failOverdueContracts, getHoldSpace, maintainContracts, spawnContractsForLocation } from './contracts';
+import { planTravel, startTravel, stepFlight } from './flight';
+import { getRefuelNeeded } from './route';
+import { FORECAST_HORIZON } from './forecast';
+import { resolveEvent, rollFlightEvent } from './events';
+import { respondToPirates, rollPirates } from './pirates';
+import { advanceCalendar } from './upkeep';
+import { deposit, repayLoan, rollCollectors, takeLoan, withdraw } from './bank';
+import { acceptMission, checkMissions, createCampaignProgress, debrief } from './campaigns';
+import { createRunStats, tally } from './stats';
+import { transact } from './ledger';
+import { awardAchievements } from './achievements';
+import { buyHullCover, getHullClaim, insureCargo, recordDamage } from './insurance';
+import { buyUpgrade } from './shipyard';
+import { buyGoods, createMarkets, sellGoods } from './market';
+import { acknowledgeLog, addLog, emitCue } from './log';
+import { Rng, createRng, hashSeed } from './rng';
+import { getActivePackIds, getActiveSystemSeed } from './content';
+
+const START_LOCATION_ID = 'station-x33';
+const WAIT_TICKS = 500;
+const DOCKING_FEE_INTERVAL = 60; // Every 60 ticks (approx 1 sec) deduct 1 credit
+const DOCKING_ALERT_INTERVAL = 300;
+
+// `runId` defaults to the seed; the app stamps a unique one on each new run
+export const createInitialState = (seed: string, runId: string = seed): GameState => {
+  const rng = createRng(hashSeed(seed));
+  const state: GameState = {
+    credits: 150, // Starting credits
+    fuel: 400,
+    hull: 100,
+    currentLocationId: START_LOCATION_ID,
+    reputation: Object.fromEntries(FACTIONS.map(f => [f.id, f.startingRep])),
+    ship: INITIAL_SHIP_STATS,
+    upgrades: INITIAL_UPGRADES,
+    day: 1,
+    gameTime: 0,
+    contracts: [],
+    isFlying: false,
+    flightProgress: 0,
+    flightDuration: 0,
+    flightOriginId: null,
+    flightDestinationId: null,
+    flightPlan: null,
+    autopilot: [],
+    pendingEvent: null,
+    encounter: null,
+    loans: [],
+    savings: 0,
+    hullCover: null,
+    damageHistory: [],
+    campaigns: createCampaignProgress(),
+    stats: createRunStats(),
+    achievements: [],
+    ledger: [],
+    contentPacks: getActivePackIds(),
+    systemSeed: getActiveSystemSeed(),
+    activeContracts: [],
+    cargoGoods: {},
+    markets: createMarkets(0),
+    logs: [
+      { id: 0, t: 0, text: "SYSTEM INIT...", severity: 'info', category: 'system' },
+      { id: 1, t: 0, text: "DOCKED AT X-33 LIBERTY.", severity: 'info', category: 'nav' }
+    ],
+    isGameOver: false,
+    cues: [],
+    cueSeq: 0,
+    seed,
+    runId,
+    rngState: rng.state,
+    inputLog: []
+  };
+  const contracts = spawnContractsForLocation(state, rng, START_LOCATION_ID);
+  return { ...state, contracts, rngState: rng.state };
+};
+
+// DOCKING FEE PENALTY
+// If cargo is aboard AND we are not flying, overtime drains credits
+const applyDockingPenalty = (state: GameState): GameState => {
+  if (state.activeContracts.length === 0 || state.isFlying) return state;
+  if (state.gameTime % DOCKING_FEE_INTERVAL !== 0) return state;
+
+  const charged = transact(state, -Math.min(1, state.credits), 'penalty', "DOCKING OVERTIME", { merge: true });
+  if (state.gameTime % DOCKING_ALERT_INTERVAL !== 0) return charged;
+  return emitCue(addLog(charged, "ALERT: DOCKING OVERTIME PENALTY -1CR", 'trade', 'warning'), 'error');
+};
+
+const tick = (state: GameState, rng: Rng): GameState => {
+  // The clock stands still while an incident waits on the player
+  if (state.pendingEvent || state.encounter) return state;
+
+  const charged = applyDockingPenalty(state);
+  const advanced = advanceCalendar({ ...charged, gameTime: charged.gameTime + 1 });
+  const flown = stepFlight(failOverdueContracts(maintainContracts(advanced, rng)), rng);
+  return continueRoute(rollCollectors(rollPirates(rollFlightEvent(flown, rng), rng), rng));
+};
+
+// Fly the first leg now and queue the rest for the autopilot
+const plotRoute = (state: GameState, stops: string[]): GameState => {
+  if (state.isFlying || stops.length === 0) return state;
+  const launched = startTravel(state, stops[0]);
+  if (!launched.isFlying) return launched;
+  return { ...launched, autopilot: stops.slice(1) };
+};
+
+// Docked at a waypoint: buy enough fuel for the next leg, plus the
+// reserve, and go
+const continueRoute = (state: GameState): GameState => {
+  if (state.isFlying || state.isGameOver || state.autopilot.length === 0) return state;
+
+  const [nextId, ...rest] = state.autopilot;
+  const plan = planTravel(state, nextId);
+  const shortfall = plan ? getRefuelNeeded(state.fuel, plan, state.ship.maxFuel) : 0;
+  const fuelled = shortfall > 0 ? refuel(state, shortfall) : state;
+
+  const launched = startTravel(fuelled, nextId);
+  if (!launched.isFlying) {
+    return emitCue(addLog({ ...launched, autopilot: [] }, "AUTOPILOT DISENGAGED. ROUTE ABORTED.", 'nav', 'warning'), 'alert');
+  }
+  return { ...launched, autopilot: rest };
+};
+
+// Sit at the berth until `until`, one tick at a time, so docking fees,
+// contract expiry and deadlines all land just as they would in real time
+const waitUntil = (state: GameState, rng: Rng, until: number): GameState => {
+  let current = state;
+  while (current.gameTime < until && !current.isGameOver && !current.pendingEvent && !current.encounter) {
+    current = tick(current, rng);
+  }
+  return current;
+};
+
+const wait = (state: GameState, rng: Rng): GameState => {
+  if (state.isFlying) return state;
+  return waitUntil(addLog(state, "WAITING FOR ALIGNMENT...", 'nav'), rng, state.gameTime + WAIT_TICKS);
+};
+
+const waitForWindow = (state: GameState, rng: Rng, until: number): GameState => {
+  if (state.isFlying || until <= state.gameTime || until > state.gameTime + FORECAST_HORIZON) return state;
+  return waitUntil(addLog(state, `HOLDING FOR LAUNCH WINDOW: T+${until - state.gameTime}`, 'nav'), rng, until);
+};
+
+// Credits the overtime penalty will take if we sit docked until `until`
+export const getDockingFees = (state: GameState, until: number): number => {
+  if (state.activeContracts.length === 0 || until <= state.gameTime) return 0;
+  const charges = Math.floor((until - 1) / DOCKING_FEE_INTERVAL) - Math.floor((state.gameTime - 1) / DOCKING_FEE_INTERVAL);
+  return Math.min(state.credits, charges);
+};
+
+const acceptContract = (state: GameState, contractId: string): GameState => {
+  const contract = state.contracts.find(c => c.id === contractId);
+  if (!contract || state.isFlying) return state;
+
+  const location = LOCATIONS.find(l => l.id === state.currentLocationId);
+  if (!servicesOpen(state, location)) return refuseService(state);
+
+  if (contract.cargoSize > getHoldSpace(state)) {
+    return emitCue(addLog(state, "ERROR: CARGO EXCEEDS HOLD SPACE.", 'trade', 'warning'), 'error');
+  }
+
+  const accepted = {
+    ...state,
+    activeContracts: [...state.activeContracts, assignDeadline(state, contract)],
+    contracts: state.contracts.filter(c => c.id !== contractId)
+  };
+  return emitCue(addLog(accepted, `ACCEPTED: ${contract.title}`, 'trade'), 'accept');
+};
+
+const refuel = (state: GameState, amount: number): GameState => {
+  const location = LOCATIONS.find(l => l.id === state.currentLocationId);
+  const price = getFuelPrice(state, location);
+  // Only what fits in the tank is pumped, or paid for
+  const litres = Math.min(amount, state.ship.maxFuel - state.fuel);
+  if (state.isFlying || !price || litres <= 0) return state;
+
+  const cost = getRefuelCost(litres, price);
+  if (state.credits < cost) return state;
+
+  const refueled = tally(transact({ ...state, fuel: state.fuel + litres }, -cost, 'fuel', `FUEL ${litres.toFixed(0)}L`), 'fuelBought', litres);
+  return emitCue(addLog(refueled, `REFUELED ${litres.toFixed(0)}L. -${cost} CR`, 'trade'), 'cash');
+};
+
+const repair = (state: GameState): GameState => {
+  const hpNeeded = state.ship.maxHull - state.hull;
+  if (state.isFlying || hpNeeded <= 0) return state;
+
+  const location = LOCATIONS.find(l => l.id === state.currentLocationId);
+  if (!servicesOpen(state, location)) return refuseService(state);
+
+  const cost = Math.ceil(hpNeeded * getRepairPrice(state, location));
+  const claim = getHullClaim(state, cost);
+  if (state.credits < cost - claim) {
+    return emitCue(addLog(state, "INSUFFICIENT FUNDS.", 'trade', 'warning'), 'error');
+  }
+
+  const billed = transact({ ...state, hull: state.ship.maxHull }, -cost, 'repair', `HULL REPAIR ${hpNeeded} HP`);
+  const claimed = transact(billed, claim, 'insurance', "HULL CLAIM", { faction: state.hullCover?.underwriter });
+  const paid = tally(tally(claimed, 'repairSpend', cost - claim), 'repairs');
+  const repaired = addLog(paid, "HULL REPAIRED.", 'trade');
+  return emitCue(claim > 0 ? addLog(repaired, `HULL CLAIM PAID: INSURER COVERS ${claim} CR`, 'trade') : repaired, 'cash');
+};
+
+const applyAction = (state: GameState, action: GameAction, rng: Rng): GameState => {
+  switch (action.type) {
+    case 'TICK':
+      return tick(state, rng);
+    case 'TRAVEL':
+      return startTravel(state, action.destinationId);
+    case 'PLOT_ROUTE':
+      return plotRoute(state, action.stops);
+    case 'RESOLVE_EVENT':
+      return recordDamage(state, resolveEvent(state, rng, action.choice));
+    case 'RESPOND_PIRATES':
+      return recordDamage(state, respondToPirates(state, rng, action.response));
+    case 'WAIT':
+      return wait(state, rng);
+    case 'WAIT_FOR_WINDOW':
+      return waitForWindow(state, rng, action.until);
+    case 'ACCEPT_CONTRACT':
+      return acceptContract(state, action.contractId);
+    case 'ACCEPT_MISSION':
+      return acceptMission(state, action.campaignId);
+    case 'DEBRIEF':
+      return debrief(state, action.campaignId, action.choice);
+    case 'ABANDON_CONTRACT':
+      return abandonContract(state, action.contractId);
+    case 'REFUEL':
+      return refuel(state, action.amount);
+    case 'REPAIR':
+      return repair(state);
+    case 'BUY_UPGRADE':
+      return buyUpgrade(state, action.upgrade);
+    case 'ACKNOWLEDGE_LOG':
+      return acknowledgeLog(state, action.id);
+    case 'TAKE_LOAN':
+      return takeLoan(state, action.amount);
+    case 'REPAY_LOAN':
+      return repayLoan(state, action.amount);
+    case 'BUY_HULL_COVER':
+      return buyHullCover(state);
+    case 'INSURE_CARGO':
+      return insureCargo(state, action.contractId);
+    case 'DEPOSIT':
+      return deposit(state, action.amount);
+    case 'WITHDRAW':
+      return withdraw(state, action.amount);
+    case 'BUY_GOODS':
+      return buyGoods(state, action.commodity, action.quantity);
+    case 'SELL_GOODS':
+      return sellGoods(state, action.commodity, action.quantity);
+    default:
+      return state;
+  }
+};
+
+// The single entry point for the rules: apply one action, get the next state.
+// Never mutates its input, never touches the DOM, safe to call from scripts.
+// All randomness comes from state.rngState, so the same seed and the same
+// action sequence always produce the same run (see engine/replay.ts).
+// Plays against the content in force; whoever loads a run puts its own
+// packs and system in force first (see ensureContent).
+export const step = (state: GameState, action: GameAction): GameState => {
+  if (state.isGameOver) return state;
+
+  const rng = createRng(state.rngState);
+  // However mission cargo leaves the hold, its campaign finds out here,
+  // and anything the step earned is awarded
+  const next = awardAchievements(checkMissions(applyAction(state, action, rng)));
+  if (next === state && rng.state === state.rngState) return state;
+
+  // Record every player input that got this far, so the run can be
+  // replayed. One that only rolled the dice counts too: the rolls after it
+  // depend on it.
+  const inputLog = action.type === 'TICK' ? next.inputLog : [...next.inputLog, { t: state.gameTime, a: action }];
+  return { ...next, rngState: rng.state, inputLog };
+};
@@ -0,0 +1,171 @@
+import { CommodityId, Faction, FactionProfile, Location, LocationType, MarketProfile, PrimaryBody, StarSystem, PLAYABLE_RADIUS, MAP_MAX_WIDTH, MAP_MIN_WIDTH } from '../types';
+import { COMMODITIES, GENERATED_MARKETS, MOON_COLORS, MOON_FLAVOUR, MOON_FUEL_PRICES, MOON_NAMES, PRIMARY_COLORS, PRIMARY_NAMES, STATION_COLORS, STATION_FLAVOUR, STATION_FUEL_PRICES, STATION_NAMES } from '../constants';
+import { Rng, createRng, hashSeed } from './rng';
+
+const STATION_BAND: [number, number] = [85, 150]; // Inner ring, clear of the primary
+// Outer band for moons and planets; the whole system has to fit the view
+// at full zoom-out
+const MOON_BAND: [number, number] = [185, Math.min(PLAYABLE_RADIUS, MAP_MAX_WIDTH / 2)];
+// Closest two orbits may sit: a twentieth of the view at full zoom-in, so
+// neighbours never draw on top of each other
+const RING_GAP = MAP_MIN_WIDTH / 20;
+const EXTRA_STATIONS: [number, number] = [1, 2];
+const EXTRA_MOONS: [number, number] = [3, 4];
+const STATION_ANGLE_JITTER = 20; // Degrees either side of an even spread
+// Orbital speeds follow Kepler from the classic inner station: 0.2 deg/tick at 100
+const REFERENCE_RADIUS = 100;
+const REFERENCE_SPEED = 0.2;
+
+type Market = Partial<Record<CommodityId, MarketProfile>>;
+
+export interface SystemLayout {
+  primary: PrimaryBody;
+  locations: Location[];
+  markets: Record<string, Market>; // For the generated bodies only
+}
+
+// What a generated body of each kind is drawn from. Factions without an
+// entry (from content packs, say) use the neutral lines and `fuel`.
+const TABLES = {
+  [LocationType.STATION]: { names: STATION_NAMES, colors: STATION_COLORS, flavour: STATION_FLAVOUR, fuelPrices: STATION_FUEL_PRICES, fuel: [1.0, 1.4] as [number, number] },
+  [LocationType.MOON]: { names: MOON_NAMES, colors: MOON_COLORS, flavour: MOON_FLAVOUR, fuelPrices: MOON_FUEL_PRICES, fuel: [2.5, 3.5] as [number, number] }
+};
+
+const between = (rng: Rng, [low, high]: [number, number]) => low + rng.next() * (high - low);
+
+const shuffle = <T>(rng: Rng, items: T[]): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+// `count` radii spread across the band, one per equal slot, each jittered
+// within its slot but never closer than RING_GAP to the next (so long as
+// the band has room for them all)
+const spreadRadii = (rng: Rng, [low, high]: [number, number], count: number) => {
+  const slot = (high - low) / Math.max(1, count);
+  const jitter = Math.max(0, slot - RING_GAP);
+  return Array.from({ length: count }, (_, i) => Math.round(low + slot * i + (slot - jitter) / 2 + rng.next() * jitter));
+};
+
+// As spreadRadii, but around orbits already `fixed` in the band: the slot
+// nearest each of them is left empty
+const freeRadii = (rng: Rng, band: [number, number], count: number, fixed: number[]) => {
+  const inBand = fixed.filter(r => r >= band[0] && r <= band[1]);
+  const radii = spreadRadii(rng, band, count + inBand.length);
+  inBand.forEach(r => {
+    const nearest = radii.reduce((best, x, i) => (Math.abs(x - r) < Math.abs(radii[best] - r) ? i : best), 0);
+    radii.splice(nearest, 1);
+  });
+  return radii;
+};
+
+const orbitSpeed = (rng: Rng, radius: number) => {
+  const kepler = REFERENCE_SPEED * Math.pow(REFERENCE_RADIUS / radius, 1.5);
+  return Math.round(kepler * between(rng, [0.9, 1.1]) * 1000) / 1000;
+};
+
+const createPrimary = (rng: Rng): PrimaryBody => {
+  const letters = 'ABCDEFGHJKLMNPRSTVWXZ';
+  const designation = rng.pick([...letters]) + rng.pick([...letters]);
+  return { name: `${rng.pick(PRIMARY_NAMES)}-${designation}`, radius: Math.round(between(rng, [30, 48])), color: rng.pick(PRIMARY_COLORS) };
+};
+
+const createBody = (rng: Rng, id: string, type: keyof typeof TABLES, system: string, factions: FactionProfile[], taken: Set<string>): Location => {
+  const table = TABLES[type];
+  const faction: Faction = rng.pick(factions).id;
+  const free = table.names.filter(n => !taken.has(n));
+  const name = free.length > 0 ? rng.pick(free) : `${type} ${taken.size + 1}`;
+  taken.add(name);
+  return {
+    id,
+    name,
+    type,
+    system,
+    faction,
+    coords: { x: 0, y: 0 },
+    description: rng.pick(table.flavour[faction] ?? table.flavour[Faction.NEUTRAL]),
+    color: rng.pick(table.colors),
+    fuelPrice: Math.round(between(rng, table.fuelPrices[faction] ?? table.fuel) * 10) / 10
+  };
+};
+
+const createProfile = (rng: Rng, kind: keyof typeof GENERATED_MARKETS): MarketProfile => ({
+  equilibrium: Math.round(between(rng, GENERATED_MARKETS[kind].equilibrium)),
+  bias: Math.round(between(rng, GENERATED_MARKETS[kind].bias) * 100) / 100
+});
+
+// X-33 space doesn't openly trade anything illegal, wherever it is
+const createMarket = (rng: Rng, location: Location): Market => {
+  const goods = shuffle(rng, COMMODITIES.filter(c => !c.illegal || location.faction !== Faction.X33).map(c => c.id));
+  const market: Market = {};
+  if (location.type === LocationType.STATION) {
+    goods.slice(0, 3 + rng.int(goods.length - 2)).forEach(id => { market[id] = createProfile(rng, 'exchange'); });
+  } else {
+    const [made, ...wanted] = goods;
+    market[made] = createProfile(rng, 'producer');
+    wanted.slice(0, 2).forEach(id => { market[id] = createProfile(rng, 'consumer'); });
+  }
+  return market;
+};
+
+// Lay out a fresh copy of `system`. The seed draws its primary and a new
+// set of stations and moons from the name, flavour and price tables, each
+// held by a faction with a foothold there and each with a market of its
+// own. Authored bodies stay as they are (campaigns, events and raider
+// havens are written around them) but are re-orbited among the new ones:
+// stations in the inner ring band, moons and planets in the outer. Gates,
+// and any body in `charted` (a pack that drew its own orbits), hold the
+// orbits they're given. Names in `taken` aren't reused, and the new ones
+// are added to it. The same seed always gives the same system.
+export const generateSystem = (
+  seed: string,
+  system: StarSystem,
+  home: boolean,
+  locations: Location[],
+  factions: FactionProfile[],
+  taken: Set<string>,
+  charted: Set<string>
+): SystemLayout => {
+  // Home keeps the key and ids it had before there were other systems, so
+  // runs saved back then still come back the same
+  const rng = createRng(hashSeed(home ? `${seed}:system` : `${seed}:system:${system.id}`));
+  const primary = createPrimary(rng);
+
+  const present = factions.filter(f => locations.some(l => l.faction === f.id && l.type !== LocationType.GATE));
+  const holders = present.length > 0 ? present : factions;
+  const idOf = (kind: string, i: number) => (home ? `${kind}-gen-${i}` : `${kind}-gen-${system.id}-${i}`);
+  const countOf = ([low, high]: [number, number]) => low + rng.int(high - low + 1);
+  locations.forEach(l => taken.add(l.name));
+  const generated = [
+    ...Array.from({ length: countOf(EXTRA_STATIONS) }, (_, i) => createBody(rng, idOf('station', i + 1), LocationType.STATION, system.id, holders, taken)),
+    ...Array.from({ length: countOf(EXTRA_MOONS) }, (_, i) => createBody(rng, idOf('moon', i + 1), LocationType.MOON, system.id, holders, taken))
+  ];
+  const markets: Record<string, Market> = {};
+  generated.forEach(l => { markets[l.id] = createMarket(rng, l); });
+  const bodies = [...locations, ...generated];
+
+  const isFixed = (l: Location) => l.type === LocationType.GATE || charted.has(l.id);
+  const fixed = bodies.filter(isFixed).flatMap(l => (l.orbitRadius ? [l.orbitRadius] : []));
+  const stations = shuffle(rng, bodies.filter(l => !isFixed(l) && l.type === LocationType.STATION));
+  const outer = shuffle(rng, bodies.filter(l => !isFixed(l) && l.type !== LocationType.STATION));
+  const stationRadii = freeRadii(rng, STATION_BAND, stations.length, fixed);
+  const outerRadii = freeRadii(rng, MOON_BAND, outer.length, fixed);
+
+  // Stations evenly round the ring so none starts stranded on the far side
+  const offset = rng.int(360);
+  const placed = new Map<string, Location>();
+  stations.forEach((l, i) => {
+    const even = offset + (360 / stations.length) * i;
+    const initialAngle = Math.round((even + between(rng, [-STATION_ANGLE_JITTER, STATION_ANGLE_JITTER]) + 360) % 360);
+    placed.set(l.id, { ...l, orbitRadius: stationRadii[i], orbitSpeed: orbitSpeed(rng, stationRadii[i]), initialAngle });
+  });
+  outer.forEach((l, i) => {
+    placed.set(l.id, { ...l, orbitRadius: outerRadii[i], orbitSpeed: orbitSpeed(rng, outerRadii[i]), initialAngle: rng.int(360) });
+  });
+
+  return { primary, locations: bodies.map(l => placed.get(l.id) ?? l), markets };
+};
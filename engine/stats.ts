@@ -0,0 +1,57 @@
+import { Contract, Faction, GameState, RunStats } from '../types';
+import { FACTIONS } from '../constants';
+
+const NEAR_MISS_HULL = 0.2; // Share of max hull
+const NEAR_MISS_FUEL = 0.05; // Share of max fuel
+
+type Tally = 'distanceFlown' | 'fuelBought' | 'repairSpend' | 'repairs' | 'contractsLostToRivals' | 'nearMisses';
+
+export const createRunStats = (): RunStats => ({
+  deliveries: Object.fromEntries(FACTIONS.map(f => [f.id, 0])),
+  deliveredTo: [],
+  distanceFlown: 0,
+  fuelBought: 0,
+  repairSpend: 0,
+  repairs: 0,
+  contractsLostToRivals: 0,
+  nearMisses: 0
+});
+
+export const tally = (state: GameState, stat: Tally, amount = 1): GameState => {
+  if (amount === 0) return state;
+  return { ...state, stats: { ...state.stats, [stat]: state.stats[stat] + amount } };
+};
+
+export const recordDeliveries = (state: GameState, delivered: Contract[], locationId: string): GameState => {
+  if (delivered.length === 0) return state;
+  const deliveries = { ...state.stats.deliveries };
+  delivered.forEach(c => { deliveries[c.faction] = (deliveries[c.faction] ?? 0) + 1; });
+  const deliveredTo = state.stats.deliveredTo.includes(locationId)
+    ? state.stats.deliveredTo
+    : [...state.stats.deliveredTo, locationId];
+  return { ...state, stats: { ...state.stats, deliveries, deliveredTo } };
+};
+
+// Made it in, but only just
+export const recordNearMiss = (state: GameState): GameState => {
+  const close = state.hull <= state.ship.maxHull * NEAR_MISS_HULL || state.fuel <= state.ship.maxFuel * NEAR_MISS_FUEL;
+  return close ? tally(state, 'nearMisses') : state;
+};
+
+export const getTotalDeliveries = (stats: RunStats) => Object.values(stats.deliveries).reduce((sum, n) => sum + n, 0);
+
+// Fold one run's tallies into another, for career totals
+export const mergeStats = (a: RunStats, b: RunStats): RunStats => {
+  const deliveries = { ...a.deliveries };
+  (Object.keys(b.deliveries) as Faction[]).forEach(f => { deliveries[f] = (deliveries[f] ?? 0) + b.deliveries[f]; });
+  return {
+    deliveries,
+    deliveredTo: [...a.deliveredTo, ...b.deliveredTo.filter(id => !a.deliveredTo.includes(id))],
+    distanceFlown: a.distanceFlown + b.distanceFlown,
+    fuelBought: a.fuelBought + b.fuelBought,
+    repairSpend: a.repairSpend + b.repairSpend,
+    repairs: a.repairs + b.repairs,
+    contractsLostToRivals: a.contractsLostToRivals + b.contractsLostToRivals,
+    nearMisses: a.nearMisses + b.nearMisses
+  };
+};
@@ -0,0 +1,47 @@
+import { Faction, GameState, LocationType } from '../types';
+import { LOCATIONS } from '../constants';
+import { getCalendar } from './calendar';
+import { restockMarkets } from './market';
+import { addLog, emitCue } from './log';
+import { getTierProfile } from './reputation';
+import { serviceBanks } from './bank';
+import { expireCover } from './insurance';
+import { transact } from './ledger';
+
+const DOCKING_RENT = 10; // Per day berthed at a station, before standing
+const CREW_WAGES = 15; // Per day, docked or not
+
+export interface DailyCost {
+  label: string;
+  amount: number;
+  faction: Faction; // Who the money goes to
+}
+
+// What tonight's rollover will charge, given where we are now
+export const getDailyCosts = (state: GameState): DailyCost[] => {
+  const costs: DailyCost[] = [{ label: 'WAGES', amount: CREW_WAGES, faction: Faction.NEUTRAL }];
+
+  const berth = LOCATIONS.find(l => l.id === state.currentLocationId);
+  if (!state.isFlying && berth?.type === LocationType.STATION) {
+    const rent = Math.ceil(DOCKING_RENT * getTierProfile(state, berth.faction).priceMultiplier);
+    costs.push({ label: 'RENT', amount: rent, faction: berth.faction });
+  }
+  return costs;
+};
+
+// Midnight: pay the bills, let the stations restock, then settle up with
+// the banks
+export const advanceCalendar = (state: GameState): GameState => {
+  const { day } = getCalendar(state.gameTime);
+  if (day <= state.day) return state;
+
+  const costs = getDailyCosts(state);
+  const itemized = costs.map(c => `${c.label} -${c.amount}`).join(', ');
+
+  // Each bill is booked on its own; whatever we can't cover is written off
+  const billed = costs.reduce((next, c) => {
+    return transact(next, -Math.min(c.amount, next.credits), 'fee', c.label, { faction: c.faction });
+  }, state);
+  const rolled = { ...billed, day, markets: restockMarkets(state) };
+  return expireCover(serviceBanks(emitCue(addLog(rolled, `DAY ${day}: ${itemized} CR. STATIONS RESTOCKED.`, 'system'), 'cash')));
+};
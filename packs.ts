@@ -0,0 +1,79 @@
+import { ContentPack } from './types';
+import { PackValidation, registerPacks, validatePack } from './engine/content';
+
+// Installed content packs and which of them new runs start with. Kept in
+// the browser like the career record; the pack JSON is stored whole so a
+// save that needs it can still be loaded later.
+const STORAGE_KEY = 'lunar-runner-47:packs';
+
+export interface PackStore {
+  packs: ContentPack[]; // In install order, which is also load order
+  enabled: string[]; // Ids
+}
+
+const createStore = (): PackStore => ({ packs: [], enabled: [] });
+
+export const readPacks = (): PackStore => {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    if (!json) return createStore();
+    // Re-check on the way in; a pack that no longer passes is dropped. The
+    // rest are registered with the engine, so saves and replays that were
+    // played with them can put them back in force.
+    const store = { ...createStore(), ...JSON.parse(json) } as PackStore;
+    const packs = store.packs.flatMap(p => validatePack(p).pack ?? []);
+    registerPacks(packs);
+    return { packs, enabled: store.enabled.filter(id => packs.some(p => p.id === id)) };
+  } catch (e) {
+    console.warn("Pack read failed:", e);
+    return createStore();
+  }
+};
+
+const writePacks = (store: PackStore): PackStore => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.warn("Pack write failed:", e);
+  }
+  return store;
+};
+
+// Validate a pack file and install it, disabled. A pack with the same id
+// is replaced in place.
+export const installPack = (json: string): PackValidation & { store: PackStore } => {
+  const store = readPacks();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    return { pack: null, errors: [`not valid JSON: ${(e as Error).message}`], store };
+  }
+
+  const result = validatePack(raw);
+  const { pack } = result;
+  if (!pack) return { ...result, store };
+
+  const exists = store.packs.some(p => p.id === pack.id);
+  const packs = exists ? store.packs.map(p => (p.id === pack.id ? pack : p)) : [...store.packs, pack];
+  return { ...result, store: writePacks({ ...store, packs }) };
+};
+
+export const removePack = (id: string): PackStore => {
+  const store = readPacks();
+  return writePacks({ packs: store.packs.filter(p => p.id !== id), enabled: store.enabled.filter(x => x !== id) });
+};
+
+export const setPackEnabled = (id: string, enabled: boolean): PackStore => {
+  const store = readPacks();
+  const others = store.enabled.filter(x => x !== id);
+  // Keep enabled ids in install order so packs always layer the same way
+  const ids = enabled ? [...others, id] : others;
+  return writePacks({ ...store, enabled: store.packs.map(p => p.id).filter(x => ids.includes(x)) });
+};
+
+// The packs behind a list of ids, and any that aren't installed
+export const resolvePacks = (store: PackStore, ids: string[]) => ({
+  packs: ids.flatMap(id => store.packs.find(p => p.id === id) ?? []),
+  missing: ids.filter(id => !store.packs.some(p => p.id === id))
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from './engine/simulation';
+import { ensureContent, getActiveSystemSeed } from './engine/content';
+import { SAVE_VERSION, migrateSave, parseSave, serializeSave } from './save';
+
+// A v17 save: no content packs, star systems, far markets or run id yet
+const oldSave = () => {
+  ensureContent([], null);
+  const { contentPacks, systemSeed, runId, markets, ...state } = createInitialState('OLDRUN');
+  const { 'station-vanta': vanta, ...nearMarkets } = markets;
+  return { version: 17, savedAt: 1234, state: { ...state, markets: nearMarkets } };
+};
+
+describe('save', () => {
+  it('migrates an old save up to the current version', () => {
+    const save = migrateSave(oldSave());
+    expect(save).not.toBeNull();
+    expect(save!.version).toBe(SAVE_VERSION);
+    expect(save!.state.contentPacks).toEqual([]);
+    expect(save!.state.systemSeed).toBeNull();
+    expect(save!.state.runId).toBe('OLDRUN:1234');
+    expect(save!.state.markets['station-vanta']).toBeDefined();
+  });
+
+  it('migrates against the save\'s own content and puts the live content back', () => {
+    const raw = oldSave();
+    ensureContent([], 'LIVE');
+    expect(migrateSave(raw)!.state.markets['moon-gen-kessler-1']).toBeUndefined();
+    expect(getActiveSystemSeed()).toBe('LIVE');
+  });
+
+  it('round-trips a current save', () => {
+    ensureContent([], 'ROUND');
+    const state = createInitialState('ROUND');
+    expect(parseSave(serializeSave(state))!.state).toEqual({ ...state, cues: [] });
+  });
+
+  it('turns away saves from a newer build', () => {
+    expect(migrateSave({ ...oldSave(), version: SAVE_VERSION + 1 })).toBeNull();
+  });
+});
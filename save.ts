@@ -0,0 +1,241 @@
+import { GameState, CENTER } from './types';
+import { createMarkets } from './engine/market';
+import { planIntercept } from './engine/flight';
+import { getLocationAt } from './engine/orbits';
+import { createCampaignProgress } from './engine/campaigns';
+import { createRunStats } from './engine/stats';
+import { withContent } from './engine/content';
+
+// Bump SAVE_VERSION whenever the shape of GameState (or anything nested in
+// it: Contract, ShipStats, ...) changes, and add a migration from the
+// previous version to MIGRATIONS below. Old saves are walked up the chain
+// one version at a time until they reach the current shape.
+export const SAVE_VERSION = 22;
+
+export type SaveSlotId = 'auto' | 'slot-1' | 'slot-2' | 'slot-3';
+
+export const MANUAL_SLOTS: SaveSlotId[] = ['slot-1', 'slot-2', 'slot-3'];
+export const ALL_SLOTS: SaveSlotId[] = ['auto', ...MANUAL_SLOTS];
+
+const STORAGE_PREFIX = 'lunar-runner-47:save:';
+// The input log only ever grows, so slots keep it under a key of its own
+const INPUTS_SUFFIX = ':inputs';
+
+export interface SaveFile {
+  version: number;
+  savedAt: number; // Wall-clock ms, for the slot picker only
+  state: GameState;
+}
+
+export interface SaveSummary {
+  slot: SaveSlotId;
+  savedAt: number;
+  seed: string;
+  credits: number;
+  gameTime: number;
+  locationId: string;
+  isFlying: boolean;
+}
+
+type Migration = (save: any) => any;
+
+// MIGRATIONS[n] upgrades a save written at version n to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: replay input log. Older runs resume fine, but their replays are
+  // missing every input made before the upgrade.
+  1: (save) => ({ ...save, state: { ...save.state, inputLog: [] } }),
+  // v3: shipyard upgrades, speed-based flight time and contract cargo sizes
+  2: (save) => {
+    const sized = (c: any) => c && { ...c, cargoSize: c.cargoSize ?? 1 };
+    return {
+      ...save,
+      state: {
+        ...save.state,
+        upgrades: { engine: 0, tank: 0, armor: 0, efficiency: 0, cargo: 0 },
+        flightDuration: 120, // The old fixed flight length
+        contracts: save.state.contracts.map(sized),
+        activeContract: sized(save.state.activeContract)
+      }
+    };
+  },
+  // v4: single active contract became a cargo hold of contracts
+  3: (save) => {
+    const { activeContract, ...state } = save.state;
+    return { ...save, state: { ...state, activeContracts: activeContract ? [activeContract] : [] } };
+  },
+  // v5: commodity markets, opened at equilibrium
+  4: (save) => ({ ...save, state: { ...save.state, cargoGoods: {}, markets: createMarkets(save.state.gameTime) } }),
+  // v6: delivery deadlines. Jobs already aboard get a flat window from load time.
+  5: (save) => {
+    const now = save.state.gameTime;
+    const activeContracts = save.state.activeContracts.map((c: any) =>
+      c.deadline !== undefined ? c : { ...c, deadline: now + 1800, failsAt: now + 2700 }
+    );
+    return { ...save, state: { ...save.state, activeContracts } };
+  },
+  // v7: intercept courses. A flight in progress is replotted from wherever
+  // the old chase path had got to.
+  6: (save) => {
+    const state = save.state;
+    if (!state.isFlying) return { ...save, state: { ...state, flightPlan: null } };
+    const origin = getLocationAt(state.flightOriginId, state.gameTime);
+    const dest = getLocationAt(state.flightDestinationId, state.gameTime);
+    const from = origin && dest
+      ? {
+          x: origin.coords.x + (dest.coords.x - origin.coords.x) * state.flightProgress,
+          y: origin.coords.y + (dest.coords.y - origin.coords.y) * state.flightProgress
+        }
+      : CENTER;
+    const flightPlan = planIntercept(from, state.flightDestinationId, state.gameTime, state.ship);
+    return {
+      ...save,
+      state: { ...state, flightPlan, flightProgress: 0, flightDuration: flightPlan?.duration ?? state.flightDuration }
+    };
+  },
+  // v8: multi-leg autopilot, nothing queued
+  7: (save) => ({ ...save, state: { ...save.state, autopilot: [] } }),
+  // v9: mid-flight events, none pending
+  8: (save) => ({ ...save, state: { ...save.state, pendingEvent: null } }),
+  // v10: pirate encounters, none under way
+  9: (save) => ({ ...save, state: { ...save.state, encounter: null } }),
+  // v11: working calendar. Catch the day counter up without billing for
+  // the days that passed before it ran (12000 ticks a day).
+  10: (save) => ({ ...save, state: { ...save.state, day: Math.floor(save.state.gameTime / 12000) + 1 } }),
+  // v12: station banks, no loans and nothing on deposit
+  11: (save) => ({ ...save, state: { ...save.state, loans: [], savings: 0 } }),
+  // v13: insurance, uncovered and with a clean record
+  12: (save) => ({ ...save, state: { ...save.state, hullCover: null, damageHistory: [] } }),
+  // v14: faction campaigns, each waiting at its first step
+  13: (save) => ({ ...save, state: { ...save.state, campaigns: createCampaignProgress() } }),
+  // v15: run statistics and achievements, counted from load time
+  14: (save) => ({ ...save, state: { ...save.state, stats: createRunStats(), achievements: [] } }),
+  // v16: the ledger, which starts empty; earlier takings aren't recoverable
+  15: (save) => ({ ...save, state: { ...save.state, ledger: [] } }),
+  // v17: structured comms entries, oldest first; the old lines are kept as
+  // plain system notices stamped with the save's time
+  16: (save) => {
+    const lines: string[] = [...save.state.logs].reverse();
+    const logs = lines.map((text, id) => ({ id, t: save.state.gameTime, text, severity: 'info', category: 'system' }));
+    return { ...save, state: { ...save.state, logs } };
+  },
+  // v18: content packs; anything older was played on the base set
+  17: (save) => ({ ...save, state: { ...save.state, contentPacks: [] } }),
+  // v19: generated star systems; older runs are all in the classic one
+  18: (save) => ({ ...save, state: { ...save.state, systemSeed: null } }),
+  // v20: other systems past the gates; their markets open fully stocked
+  19: (save) => ({ ...save, state: { ...save.state, markets: { ...createMarkets(save.state.gameTime), ...save.state.markets } } }),
+  // v21: run ids for the career record. Older runs get one from when they
+  // were saved, so copies in different slots count as different runs.
+  20: (save) => ({ ...save, state: { ...save.state, runId: `${save.state.seed}:${save.savedAt}` } }),
+  // v22: generated systems get stations and markets of their own, which
+  // open fully stocked
+  21: (save) => ({ ...save, state: { ...save.state, markets: { ...createMarkets(save.state.gameTime), ...save.state.markets } } })
+};
+
+// Walk a save up the chain. Undefined if a step is missing.
+const upgrade = (raw: any): any => {
+  let save = raw;
+  while (save.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version];
+    if (!migrate) {
+      console.warn(`No save migration from version ${save.version}.`);
+      return undefined;
+    }
+    save = { ...migrate(save), version: save.version + 1 };
+  }
+  return save;
+};
+
+export const migrateSave = (raw: any): SaveFile | null => {
+  if (!raw || typeof raw.version !== 'number' || !raw.state) return null;
+  if (raw.version > SAVE_VERSION) {
+    console.warn(`Save version ${raw.version} is newer than this build (${SAVE_VERSION}).`);
+    return null;
+  }
+
+  // Some steps place ships and stock markets, so the chain runs with the
+  // save's own packs and system in force. Saves from before either existed
+  // were played on the base set in the classic layout.
+  const packs: string[] = raw.state.contentPacks ?? [];
+  const save = raw.version === SAVE_VERSION ? raw : withContent(packs, raw.state.systemSeed ?? null, () => upgrade(raw));
+  if (save === null) {
+    console.warn(`Save needs content packs that aren't installed: ${packs.join(', ')}`);
+    return null;
+  }
+  if (!save) return null;
+
+  const state = save.state;
+  if (typeof state.credits !== 'number' || typeof state.currentLocationId !== 'string') return null;
+  return save as SaveFile;
+};
+
+export const serializeSave = (state: GameState): string => {
+  const save: SaveFile = {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    // Pending audio cues belong to the session that emitted them
+    state: { ...state, cues: [] }
+  };
+  return JSON.stringify(save);
+};
+
+export const parseSave = (json: string): SaveFile | null => {
+  try {
+    return migrateSave(JSON.parse(json));
+  } catch (e) {
+    console.warn("Save parse failed:", e);
+    return null;
+  }
+};
+
+// --- LOCAL STORAGE SLOTS ---
+
+export const writeSave = (slot: SaveSlotId, state: GameState): boolean => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + slot + INPUTS_SUFFIX, JSON.stringify(state.inputLog));
+    localStorage.setItem(STORAGE_PREFIX + slot, serializeSave({ ...state, inputLog: [] }));
+    return true;
+  } catch (e) {
+    console.warn("Save write failed:", e);
+    return false;
+  }
+};
+
+export const readSave = (slot: SaveSlotId): SaveFile | null => {
+  try {
+    const json = localStorage.getItem(STORAGE_PREFIX + slot);
+    const save = json ? parseSave(json) : null;
+    // Slots written before the split carry their inputs inline
+    const inputs = localStorage.getItem(STORAGE_PREFIX + slot + INPUTS_SUFFIX);
+    if (!save || !inputs) return save;
+    return { ...save, state: { ...save.state, inputLog: JSON.parse(inputs) } };
+  } catch (e) {
+    console.warn("Save read failed:", e);
+    return null;
+  }
+};
+
+export const deleteSave = (slot: SaveSlotId) => {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + slot);
+    localStorage.removeItem(STORAGE_PREFIX + slot + INPUTS_SUFFIX);
+  } catch (e) {
+    console.warn("Save delete failed:", e);
+  }
+};
+
+export const listSaves = (): SaveSummary[] => {
+  return ALL_SLOTS.flatMap(slot => {
+    const save = readSave(slot);
+    if (!save) return [];
+    return [{
+      slot,
+      savedAt: save.savedAt,
+      seed: save.state.seed,
+      credits: save.state.credits,
+      gameTime: save.state.gameTime,
+      locationId: save.state.currentLocationId,
+      isFlying: save.state.isFlying
+    }];
+  });
+};
@@ -1,14 +1,25 @@
-export enum Faction {
-  X33 = "X-33 Liberty Bell",
-  X63 = "X-63 The Bazaar",
-  X99 = "X-99 The Fringe",
-  NEUTRAL = "Neutral"
+// The base factions, by the names the rules refer to them by. Content packs
+// can declare more, so a faction is any id string.
+export const Faction = {
+  X33: "X-33 Liberty Bell",
+  X63: "X-63 The Bazaar",
+  X99: "X-99 The Fringe",
+  NEUTRAL: "Neutral"
+} as const;
+
+export type Faction = string;
+
+export interface FactionProfile {
+  id: Faction;
+  color: string; // Hex color for badges and labels
+  startingRep: number;
 }
 
 export enum LocationType {
   STATION = "Station",
   MOON = "Moon",
-  PLANET = "Planet"
+  PLANET = "Planet",
+  GATE = "Gate"
 }
 
 export interface Coordinates {
@@ -16,10 +27,18 @@ export interface Coordinates {
   y: number;
 }
 
+// A jump gate's link to its twin in another system
+export interface JumpGate {
+  to: string; // Id of the gate at the far end
+  toll: number; // Credits, paid on entry
+  fuel: number; // Litres the jump burns
+}
+
 export interface Location {
   id: string;
   name: string;
   type: LocationType;
+  system: string; // Id of the star system it orbits in
   faction: Faction;
   coords: Coordinates;
   description: string;
@@ -29,6 +48,28 @@ export interface Location {
   orbitRadius?: number;
   orbitSpeed?: number; // degrees per tick
   initialAngle?: number; // degrees
+  gate?: JumpGate; // Gates only
+}
+
+export type RepTier = 'hostile' | 'neutral' | 'trusted' | 'allied';
+
+export interface RepTierProfile {
+  tier: RepTier;
+  minRep: number; // Lowest reputation that still counts as this tier
+  priceMultiplier: number; // Applied to fuel and repair at the faction's locations
+  payMultiplier: number; // Applied to contracts the faction issues
+  color: string;
+}
+
+export interface ContractTemplate {
+  title: string;
+  basePay: number;
+  desc: string;
+  cargo: number; // Hold units the consignment needs
+  risk?: 'LOW' | 'MED' | 'HIGH';
+  minTier?: RepTier; // Issuer must rate the player at least this well
+  faction?: Faction; // Only offered by this faction's locations
+  secret?: boolean; // Off-the-books work, never posted publicly
 }
 
 export interface Contract {
@@ -37,12 +78,17 @@ export interface Contract {
   description: string;
   destinationId: string;
   pay: number;
-  // Dynamic values calculated at runtime, kept here for initial reference if needed
-  baseDistance?: number; 
-  deadline?: number; 
+  // Set when the contract is accepted
+  baseDistance?: number; // Route distance at acceptance
+  deadline?: number; // Game tick full pay is due by
+  failsAt?: number; // Game tick past which the job is forfeit
   expiresAt: number; // Game tick when contract disappears
   riskLevel: 'LOW' | 'MED' | 'HIGH';
   faction: Faction;
+  cargoSize: number; // Hold units the consignment takes up
+  secret?: boolean;
+  insured?: boolean; // Cargo cover bought; pays out `pay` if the job fails
+  mission?: string; // Campaign step this delivery belongs to
 }
 
 export interface ShipStats {
@@ -53,6 +99,313 @@ export interface ShipStats {
   cargoCapacity: number;
 }
 
+export type CommodityId = 'ice' | 'ore' | 'produce' | 'luxury' | 'contraband';
+
+export interface Commodity {
+  id: CommodityId;
+  name: string;
+  basePrice: number; // CR per unit at equilibrium stock
+  illegal?: boolean;
+}
+
+// How a location trades one good: where its stock settles and how it prices it
+export interface MarketProfile {
+  equilibrium: number; // Stock level the market recovers towards
+  bias: number; // Price multiplier; < 1 for producers, > 1 for consumers
+}
+
+export interface MarketStock {
+  stock: number;
+  updatedAt: number; // gameTime the stock was last written
+}
+
+export type UpgradeKind = 'engine' | 'tank' | 'armor' | 'efficiency' | 'cargo';
+
+export interface UpgradeTier {
+  name: string;
+  value: number; // Value the upgraded stat takes at this tier
+  price: number; // Base price before the shipyard's markup
+}
+
+export interface UpgradeLine {
+  kind: UpgradeKind;
+  name: string;
+  stat: keyof ShipStats;
+  tiers: UpgradeTier[]; // Tier 0 is the stock part
+}
+
+export interface ShipyardProfile {
+  name: string;
+  priceMultiplier: number;
+  maxTier: Record<UpgradeKind, number>; // Highest tier this yard stocks
+}
+
+// A straight-line intercept course, fixed at launch
+export interface FlightPlan {
+  destinationId: string;
+  from: Coordinates; // Where we leave from
+  to: Coordinates; // Where the destination will be when we get there
+  departTime: number;
+  duration: number; // Ticks from launch to arrival
+  distance: number; // Length of the path actually flown
+  fuel: number; // Total burn, quoted up front
+  toll?: number; // Gate jumps: credits charged at launch. Drawn in the far system, from its gate out.
+}
+
+// --- FLIGHT EVENTS ---
+
+// What has to be true for an event to come up mid-flight
+export interface EventTrigger {
+  minRisk?: 'MED' | 'HIGH'; // Riskiest job aboard must be at least this
+  factions?: Faction[]; // Only in these factions' space
+  cargo?: 'contraband' | CommodityId; // Only with this aboard
+  hullBelow?: number; // Percent of max hull
+  fuelBelow?: number; // Percent of max fuel
+}
+
+export interface EventOutcome {
+  text: string; // Logged when this outcome lands
+  hull?: number;
+  fuel?: number;
+  credits?: number;
+  reputation?: number; // With whoever's space we're in
+  confiscate?: boolean; // Illegal goods and off-the-books jobs are seized
+  jettison?: CommodityId; // Goods dumped overboard
+}
+
+export interface EventChoice {
+  label: string;
+  cost?: number; // Credits needed to take this option
+  chance?: number; // Odds of `success`; `failure` otherwise
+  success: EventOutcome;
+  failure?: EventOutcome;
+}
+
+export interface FlightEvent {
+  id: string;
+  title: string;
+  text: string;
+  weight: number; // Relative odds among the events that can trigger
+  trigger: EventTrigger;
+  choices: EventChoice[];
+}
+
+// An event waiting on the player; the flight holds until it's resolved
+export interface PendingEvent {
+  eventId: string;
+  faction: Faction; // Whose space it happened in
+}
+
+// --- CALENDAR ---
+
+// Recurring happenings at a station, once a week
+export interface StationEvent {
+  id: string;
+  name: string;
+  locationId: string;
+  weekday: number; // 0-based day of the week it falls on
+  effect: 'market-day' | 'inspection';
+  desc: string;
+}
+
+// --- PIRATES ---
+
+export type PirateResponse = 'tribute' | 'dump' | 'run' | 'fight';
+
+// Raiders alongside; the flight holds until the player responds
+export interface PirateEncounter {
+  ships: number;
+  tribute: number; // Credits they'll take to leave us be
+  bearings: number[]; // Degrees around our ship, one per raider, for the map
+  collector?: Faction; // Set when these are a lender's debt collectors, not raiders
+}
+
+// --- BANKING ---
+
+export type DebtCollection = 'reputation' | 'seizure' | 'collectors';
+
+// A station bank's lending terms
+export interface BankProfile {
+  name: string;
+  minTier: RepTier; // Won't lend to anyone they rate worse than this
+  maxLoan: number;
+  rate: number; // Daily interest on the outstanding balance
+  rateSwing?: number; // Variable-rate lenders drift this far either side of `rate`
+  termDays: number; // Days the loan is meant to be repaid over
+  paymentInterval: number; // Days between instalments
+  collection: DebtCollection; // What a missed instalment brings down on you
+}
+
+// One per lending faction at most
+export interface Loan {
+  faction: Faction;
+  principal: number;
+  balance: number; // Owed now, interest included
+  instalment: number; // Taken automatically every paymentInterval days
+  nextDue: number; // Calendar day the next instalment falls due
+  arrears: number; // Missed instalments still unpaid (already part of balance)
+  missed: number; // Instalments missed over the life of the loan
+}
+
+// --- INSURANCE ---
+
+export interface HullCover {
+  underwriter: Faction;
+  expiresDay: number; // Last calendar day the policy pays out on
+  deductible: number; // Credits of each repair bill we still pay ourselves
+}
+
+// Hull lost in one incident, for pricing premiums
+export interface DamageRecord {
+  day: number;
+  hp: number;
+}
+
+// --- CAMPAIGNS ---
+
+// What a campaign step asks for. It goes in the hold as a contract.
+export interface MissionObjective {
+  destinationId: string;
+  cargo: number; // Hold units
+  days: number; // Due by the end of this many calendar days, counting the day accepted
+  risk: 'LOW' | 'MED' | 'HIGH';
+  contraband?: boolean; // Seized by anyone but the issuer, like a secret job
+}
+
+// One answer the player can give at a debrief, and where it leads
+export interface MissionBranch {
+  label: string;
+  reply: string; // Logged once chosen
+  next?: string; // Step this leads to; the campaign ends without one
+  credits?: number;
+  reputation?: Partial<Record<Faction, number>>;
+}
+
+export interface MissionStep {
+  id: string;
+  title: string;
+  minRep: number; // Standing with the campaign's faction before it's offered
+  briefing: string;
+  objective: MissionObjective;
+  pay: number;
+  debrief: string; // Said on delivery, before the branches
+  branches: MissionBranch[];
+  failure: { text: string; next?: string }; // A failed step can lead on, or end the campaign
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  faction: Faction;
+  giverId: string; // Station that hands out the steps
+  firstStep: string;
+  steps: MissionStep[];
+}
+
+export type CampaignStatus = 'offered' | 'active' | 'debrief' | 'complete' | 'failed';
+
+export interface CampaignProgress {
+  stepId: string; // Step on offer, under way or being debriefed; the last one once over
+  status: CampaignStatus;
+}
+
+// --- CAREER ---
+
+// Running tallies for one run
+export interface RunStats {
+  deliveries: Record<Faction, number>; // Jobs handed over, by issuer
+  deliveredTo: string[]; // Every location we've completed a delivery at
+  distanceFlown: number; // AU
+  fuelBought: number; // Litres
+  repairSpend: number; // Credits paid for repairs, after insurance
+  repairs: number;
+  contractsLostToRivals: number;
+  nearMisses: number; // Docked with hull or fuel in the red
+}
+
+// --- LEDGER ---
+
+export type LedgerCategory = 'income' | 'trade' | 'fuel' | 'repair' | 'upgrade' | 'fee' | 'penalty' | 'insurance' | 'finance';
+
+// One movement of credits, in or out
+export interface LedgerEntry {
+  t: number; // gameTime it was booked at (last booking, for merged entries)
+  amount: number; // Signed; negative is money out
+  balance: number; // Credits after this entry
+  category: LedgerCategory;
+  memo: string;
+  locationId: string | null; // Where we were; null in flight
+  faction: Faction; // Counterparty
+  contract?: { id: string; title: string }; // Job this entry is booked against
+}
+
+// --- COMMS ---
+
+export type LogSeverity = 'info' | 'warning' | 'critical';
+
+export type LogCategory = 'nav' | 'trade' | 'combat' | 'system';
+
+export interface LogEntry {
+  id: number; // Position in the history, so stable across saves
+  t: number; // gameTime it was logged at
+  text: string;
+  severity: LogSeverity;
+  category: LogCategory;
+  acked?: boolean; // Critical entries stay pinned until this is set
+}
+
+// --- CONTENT PACKS ---
+
+// A JSON bundle layered over the base content. Entries whose id matches one
+// already loaded replace it; the rest are added.
+export interface ContentPack {
+  id: string;
+  name: string;
+  description?: string;
+  factions?: FactionProfile[];
+  systems?: StarSystem[];
+  locations?: Location[];
+  contractTemplates?: ContractTemplate[]; // Matched on title
+  shipyards?: Record<Faction, ShipyardProfile>;
+  banks?: Record<Faction, BankProfile>;
+  markets?: Record<string, Partial<Record<CommodityId, MarketProfile>>>; // Keyed by location id
+}
+
+// --- STAR SYSTEMS ---
+
+// The body everything orbits, drawn at CENTER
+export interface PrimaryBody {
+  name: string;
+  radius: number; // Map units
+  color: string;
+}
+
+// Every system is its own map around CENTER; gates are the only way between them
+export interface StarSystem {
+  id: string;
+  name: string;
+  primary: PrimaryBody;
+  coords: Coordinates; // Position on the galaxy map
+}
+
+// One hop of a multi-leg itinerary
+export interface RouteLeg {
+  plan: FlightPlan;
+  refuel: number; // Litres bought on arrival, before the next leg (0 on the last)
+  refuelCost: number; // Credits for that fuel
+}
+
+export interface Route {
+  legs: RouteLeg[];
+  arrivalTime: number;
+  fuelCost: number; // Credits spent refuelling along the way
+  tolls: number; // Credits paid at gates
+  risk: number; // Chance (0-1) of an incident or raiders somewhere en route
+  lowReserve: boolean; // Some leg launches without the fuel reserve in hand
+}
+
+export type RouteRanking = 'time' | 'cost' | 'risk';
+
 export interface GameState {
   credits: number;
   fuel: number;
@@ -60,17 +413,95 @@ export interface GameState {
   currentLocationId: string;
   reputation: Record<Faction, number>;
   ship: ShipStats;
-  day: number;
+  upgrades: Record<UpgradeKind, number>; // Installed tier per upgrade line
+  day: number; // Last calendar day whose rollover has been processed
   gameTime: number; // Global ticker for orbits
   contracts: Contract[]; // Available global contracts
   isFlying: boolean;
   flightProgress: number; // 0 to 1 (Approximate for flight bar)
+  flightDuration: number; // Ticks the current flight takes, set at launch
   flightOriginId: string | null;
   flightDestinationId: string | null;
-  activeContract: Contract | null;
-  logs: string[];
+  flightPlan: FlightPlan | null; // Course being flown, null when docked
+  autopilot: string[]; // Stops still to fly to after this leg, in order
+  pendingEvent: PendingEvent | null; // Mid-flight incident awaiting a decision
+  encounter: PirateEncounter | null; // Raiders awaiting a response
+  loans: Loan[];
+  savings: number; // On deposit with the station banks, out of reach of raiders
+  hullCover: HullCover | null;
+  damageHistory: DamageRecord[]; // Recent hull damage, oldest first
+  campaigns: Record<string, CampaignProgress>; // Keyed by campaign id
+  stats: RunStats;
+  achievements: string[]; // Ids earned this run, in order
+  ledger: LedgerEntry[]; // Every credit movement, oldest first; the oldest are brought forward once it fills
+  contentPacks: string[]; // Ids of the packs the run was started with, in load order
+  systemSeed: string | null; // Seed the star system was generated from; null for the classic layout
+  activeContracts: Contract[]; // Jobs in the hold, bounded by ship.cargoCapacity
+  cargoGoods: Partial<Record<CommodityId, number>>; // Speculative goods aboard, 1 hold unit each
+  markets: Record<string, Partial<Record<CommodityId, MarketStock>>>; // Keyed by location id
+  logs: LogEntry[]; // Recent comms history, oldest first, capped at LOG_HISTORY_LENGTH
+  isGameOver: boolean;
+  cues: SoundCue[]; // Recent audio cues emitted by the engine, newest last
+  cueSeq: number; // Running counter used to tag cues
+  seed: string; // Player-facing seed the run was started from
+  runId: string; // Tells this run apart from others on the same seed, for the career record
+  rngState: number; // Current PRNG state; every random roll goes through it
+  inputLog: ReplayInput[]; // Every player action so far, for replays
+}
+
+// Audio the UI should play in response to a simulation step
+export type SoundKind = 'accept' | 'error' | 'cash' | 'alert' | 'engine-start' | 'engine-stop';
+
+export interface SoundCue {
+  seq: number;
+  kind: SoundKind;
+}
+
+// Everything the player (or a script) can ask the simulation to do
+export type GameAction =
+  | { type: 'TICK' }
+  | { type: 'TRAVEL'; destinationId: string }
+  | { type: 'PLOT_ROUTE'; stops: string[] } // Waypoints then destination
+  | { type: 'RESOLVE_EVENT'; choice: number } // Index into the event's choices
+  | { type: 'RESPOND_PIRATES'; response: PirateResponse }
+  | { type: 'WAIT' }
+  | { type: 'WAIT_FOR_WINDOW'; until: number } // Hold at the berth until this tick
+  | { type: 'ACCEPT_CONTRACT'; contractId: string }
+  | { type: 'ACCEPT_MISSION'; campaignId: string } // The step on offer at this station
+  | { type: 'DEBRIEF'; campaignId: string; choice: number } // Index into the step's branches
+  | { type: 'ABANDON_CONTRACT'; contractId: string }
+  | { type: 'REFUEL'; amount: number }
+  | { type: 'REPAIR' }
+  | { type: 'BUY_UPGRADE'; upgrade: UpgradeKind }
+  | { type: 'ACKNOWLEDGE_LOG'; id?: number } // Unpin one critical entry, or all of them
+  | { type: 'TAKE_LOAN'; amount: number } // From the bank at the current station
+  | { type: 'REPAY_LOAN'; amount: number }
+  | { type: 'BUY_HULL_COVER' }
+  | { type: 'INSURE_CARGO'; contractId: string }
+  | { type: 'DEPOSIT'; amount: number }
+  | { type: 'WITHDRAW'; amount: number }
+  | { type: 'BUY_GOODS'; commodity: CommodityId; quantity: number }
+  | { type: 'SELL_GOODS'; commodity: CommodityId; quantity: number };
+
+// A player action stamped with the gameTime it was applied at
+export interface ReplayInput {
+  t: number;
+  a: GameAction;
+}
+
+// Seed + inputs is enough to re-simulate a whole run
+export interface ReplayLog {
+  version: number;
+  seed: string;
+  endTime: number;
+  inputs: ReplayInput[];
+  packs: string[]; // Content packs the run was played with; empty for the base set
+  system: string | null; // Seed of the generated system, null for the classic one
 }
 
 export const SCREEN_WIDTH = 800;
 export const SCREEN_HEIGHT = 600;
-export const CENTER = { x: SCREEN_WIDTH / 2, y: SCREEN_HEIGHT / 2 };
\ No newline at end of file
+export const CENTER = { x: SCREEN_WIDTH / 2, y: SCREEN_HEIGHT / 2 };
+export const PLAYABLE_RADIUS = 320; // No orbit reaches further from CENTER
+export const MAP_MIN_WIDTH = 200; // Map units across the view, fully zoomed in
+export const MAP_MAX_WIDTH = 2500; // ...and fully zoomed out
\ No newline at end of file